@@ -1,10 +1,85 @@
 /**
- * Service Worker for Demo Mode
+ * Service Worker for Demo Mode and Streamed Downloads
  * 
  * Intercepts S3-style list requests and serves pre-generated manifest XML files.
+ * Also serves file downloads streamed from the page (see src/lib/download.ts).
  * All other requests pass through to static file hosting.
  */
 
+// Downloads registered by the page, by ID: { port, name, size }
+const downloads = new Map();
+
+/**
+ * RFC 6266 Content-Disposition value with a UTF-8 filename
+ */
+function contentDisposition(name) {
+  const encoded = encodeURIComponent(name).replace(/['()*]/g, (c) => '%' + c.charCodeAt(0).toString(16).toUpperCase());
+  return `attachment; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * Build a download response whose body is pulled chunk by chunk from the page
+ */
+function downloadResponse({ port, name, size }) {
+  let pending = null; // Resolves the pull waiting for the page's next message
+  let unsolicited = null; // Error sent by the page between pulls (e.g. cancelled there)
+
+  port.onmessage = (event) => {
+    const resolve = pending;
+    pending = null;
+    if (resolve) {
+      resolve(event.data);
+    } else {
+      unsolicited = event.data;
+    }
+  };
+
+  const body = new ReadableStream({
+    pull(controller) {
+      return new Promise((resolve) => {
+        if (unsolicited) {
+          resolve(unsolicited);
+          return;
+        }
+        pending = resolve;
+        port.postMessage({ type: 'pull' });
+      }).then((message) => {
+        if (message.chunk) {
+          controller.enqueue(message.chunk);
+        } else if (message.done) {
+          controller.close();
+          port.close();
+        } else {
+          controller.error(new Error(message.error || 'Download failed'));
+          port.close();
+        }
+      });
+    },
+    cancel() {
+      port.postMessage({ type: 'cancel' });
+      port.close();
+    },
+  }, { highWaterMark: 0 });
+
+  const headers = {
+    'Content-Type': 'application/octet-stream',
+    'Content-Disposition': contentDisposition(name),
+  };
+  if (typeof size === 'number') {
+    headers['Content-Length'] = String(size);
+  }
+  return new Response(body, { headers });
+}
+
+self.addEventListener('message', (event) => {
+  const data = event.data;
+  if (data && data.type === 'download' && event.ports[0]) {
+    const port = event.ports[0];
+    downloads.set(data.id, { port, name: data.name, size: data.size });
+    port.postMessage({ type: 'ready' });
+  }
+});
+
 self.addEventListener('install', (event) => {
   console.log('[SW] Installing demo service worker');
   self.skipWaiting();
@@ -24,6 +99,15 @@ self.addEventListener('fetch', (event) => {
     return; // Let cross-origin requests pass through
   }
   
+  // Streamed download started by the page
+  const downloadMatch = url.pathname.match(/\/__download\/([\w-]+)$/);
+  if (downloadMatch && downloads.has(downloadMatch[1])) {
+    const download = downloads.get(downloadMatch[1]);
+    downloads.delete(downloadMatch[1]);
+    event.respondWith(downloadResponse(download));
+    return;
+  }
+  
   // Only intercept requests that look like demo-repo list requests
   if (url.searchParams.has('list-type') && url.pathname.includes('demo-repo')) {
     const prefix = url.searchParams.get('prefix') || '';
@@ -20,7 +20,8 @@ generate_manifest() {
   for f in "$REPO_DIR/$prefix"/*; do
     if [ -f "$f" ]; then
       fname=$(basename "$f")
-      echo "  <Contents><Key>$prefix/$fname</Key></Contents>" >> "$output"
+      size=$(wc -c < "$f" | tr -d ' ')
+      echo "  <Contents><Key>$prefix/$fname</Key><Size>$size</Size></Contents>" >> "$output"
     fi
   done
   
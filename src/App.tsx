@@ -4,10 +4,14 @@ import {
   ConnectionForm,
   SnapshotList,
   FileBrowser,
+  SnapshotDiff,
+  SearchPanel,
   EncryptModal,
   DecryptModal,
+  CredentialsModal,
   ToastContainer,
   ConfigManager,
+  CacheControls,
 } from './components';
 import { useConnectionStore, useUIStore } from './store';
 import {
@@ -66,12 +70,19 @@ export function App() {
             <ConfigManager connected />
           </div>
           <SnapshotList />
+          <SnapshotDiff />
+          <SearchPanel />
           <FileBrowser />
         </>
       )}
 
+      <div className="card config-card">
+        <CacheControls />
+      </div>
+
       <EncryptModal />
       <DecryptModal />
+      <CredentialsModal />
       <ToastContainer />
     </div>
   );
@@ -0,0 +1,73 @@
+import React from 'react';
+import { useConnectionStore } from '../store';
+import { PasswordInput } from './PasswordInput';
+
+export function AzureFields() {
+  const {
+    azureAccount, azureContainer, azurePrefix, azureSasToken, azureAccountKey, azureEndpoint,
+    setField,
+  } = useConnectionStore();
+
+  return (
+    <>
+      <div className="form-group">
+        <label htmlFor="azureAccount">Storage Account</label>
+        <input
+          type="text"
+          id="azureAccount"
+          placeholder="mystorageaccount"
+          value={azureAccount}
+          onChange={(e) => setField('azureAccount', e.target.value)}
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="azureContainer">Container</label>
+        <input
+          type="text"
+          id="azureContainer"
+          placeholder="restic"
+          value={azureContainer}
+          onChange={(e) => setField('azureContainer', e.target.value)}
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="azurePrefix">Prefix (optional)</label>
+        <input
+          type="text"
+          id="azurePrefix"
+          placeholder="backups/"
+          value={azurePrefix}
+          onChange={(e) => setField('azurePrefix', e.target.value)}
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="azureEndpoint">Endpoint (optional)</label>
+        <input
+          type="text"
+          id="azureEndpoint"
+          placeholder="https://<account>.blob.core.windows.net"
+          value={azureEndpoint}
+          onChange={(e) => setField('azureEndpoint', e.target.value)}
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="azureSasToken">SAS Token</label>
+        <PasswordInput
+          id="azureSasToken"
+          placeholder="sv=...&sig=..."
+          value={azureSasToken}
+          onChange={(value) => setField('azureSasToken', value)}
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="azureAccountKey">Account Key (if no SAS token)</label>
+        <PasswordInput
+          id="azureAccountKey"
+          placeholder="base64 shared key"
+          value={azureAccountKey}
+          onChange={(value) => setField('azureAccountKey', value)}
+        />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,64 @@
+import React, { useState, useEffect } from 'react';
+import { useConnectionStore, useUIStore } from '../store';
+import { getCacheLimit, setCacheLimit, getCacheUsage, clearCache } from '../lib/cache';
+import { formatBytes } from '../utils/formatters';
+
+const MB = 1024 * 1024;
+const LIMIT_OPTIONS = [0, 64 * MB, 256 * MB, 1024 * MB, 4096 * MB];
+
+/**
+ * Shows how much the repository cache holds, sets its limit and clears it
+ */
+export function CacheControls() {
+  const isConnected = useConnectionStore((state) => state.isConnected);
+  const showToast = useUIStore((state) => state.showToast);
+
+  const [usage, setUsage] = useState<number | null>(null);
+  const [limit, setLimit] = useState(getCacheLimit());
+
+  const updateUsage = () => {
+    getCacheUsage().then(setUsage, () => setUsage(null));
+  };
+
+  // Refresh when connecting or disconnecting (connecting fills the cache)
+  useEffect(() => {
+    updateUsage();
+  }, [isConnected]);
+
+  const handleLimitChange = (value: number) => {
+    setCacheLimit(value);
+    setLimit(value);
+    showToast('Cache limit applies from the next connection', 'info');
+  };
+
+  const handleClear = async () => {
+    try {
+      await clearCache();
+      updateUsage();
+      showToast('Cache cleared', 'success');
+    } catch (err) {
+      showToast(`Failed to clear cache: ${(err as Error).message}`, 'error');
+    }
+  };
+
+  return (
+    <div className="config-actions">
+      <label htmlFor="cache-limit">Cache:</label>
+      <span className="cache-usage">{usage === null ? 'unavailable' : `${formatBytes(usage)} used`}</span>
+      <select
+        id="cache-limit"
+        className="config-select"
+        value={limit}
+        onChange={(e) => handleLimitChange(Number(e.target.value))}
+        title="Maximum size of decrypted snapshots, indexes and trees kept in this browser"
+      >
+        {LIMIT_OPTIONS.map((bytes) => (
+          <option key={bytes} value={bytes}>{bytes === 0 ? 'Off' : `Up to ${formatBytes(bytes)}`}</option>
+        ))}
+      </select>
+      <button className="icon-btn danger" onClick={handleClear} title="Delete all cached data">
+        🧹 Clear Cache
+      </button>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import {
   saveConfigToStorage,
   loadConfigsFromStorage,
   deleteConfigFromStorage,
+  hasRepoLocation,
 } from '../lib/config';
 
 interface ConfigManagerProps {
@@ -17,8 +18,8 @@ export function ConfigManager({ connected = false }: ConfigManagerProps) {
 
   const handleCopyLink = () => {
     const config = getFormConfig();
-    if (!config.endpoint || !config.bucket) {
-      showToast('Please fill in endpoint and bucket first', 'info');
+    if (!hasRepoLocation(config)) {
+      showToast('Please fill in the repository location first', 'info');
       return;
     }
     openEncryptModal();
@@ -39,8 +40,8 @@ export function ConfigManager({ connected = false }: ConfigManagerProps) {
 
   const handleSave = () => {
     const config = getFormConfig();
-    if (!config.endpoint || !config.bucket) {
-      showToast('Please fill in endpoint and bucket first', 'info');
+    if (!hasRepoLocation(config)) {
+      showToast('Please fill in the repository location first', 'info');
       return;
     }
     saveConfigToStorage(config);
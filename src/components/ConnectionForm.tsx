@@ -2,12 +2,32 @@ import React from 'react';
 import { useConnectionStore, useSnapshotStore, useBrowserStore, useUIStore } from '../store';
 import { PasswordInput } from './PasswordInput';
 import { ConfigManager } from './ConfigManager';
+import { S3Fields } from './S3Fields';
+import { RestFields } from './RestFields';
+import { LocalFields } from './LocalFields';
+import { StaticFields } from './StaticFields';
+import { AzureFields } from './AzureFields';
+import { GcsFields } from './GcsFields';
+import { BACKEND_LABELS } from '../lib/backends';
+import { hasRepoLocation } from '../lib/config';
+import type { BackendType } from '../lib/types';
+
+function BackendFields({ type }: { type: BackendType }) {
+  switch (type) {
+    case 's3': return <S3Fields />;
+    case 'rest': return <RestFields />;
+    case 'local': return <LocalFields />;
+    case 'static': return <StaticFields />;
+    case 'azure': return <AzureFields />;
+    case 'gcs': return <GcsFields />;
+  }
+}
 
 export function ConnectionForm() {
   const {
-    endpoint, bucket, prefix, region, accessKeyId, secretAccessKey, password,
-    isConnecting, error,
-    setField, connect, getFormConfig,
+    backendType, password,
+    isConnecting, error, unlockProgress,
+    setField, setBackendType, connect, cancelConnect, getFormConfig,
   } = useConnectionStore();
   
   const loadSnapshots = useSnapshotStore((state) => state.loadSnapshots);
@@ -24,8 +44,8 @@ export function ConnectionForm() {
 
   const handleCopyLink = () => {
     const config = getFormConfig();
-    if (!config.endpoint || !config.bucket) {
-      showToast('Please fill in endpoint and bucket first', 'info');
+    if (!hasRepoLocation(config)) {
+      showToast('Please fill in the repository location first', 'info');
       return;
     }
     openEncryptModal();
@@ -35,65 +55,19 @@ export function ConnectionForm() {
     <div className="card">
       <h2>Connect to Repository</h2>
       <div className="form-grid">
-        <div className="form-group">
-          <label htmlFor="endpoint">S3 Endpoint</label>
-          <input
-            type="text"
-            id="endpoint"
-            placeholder="https://s3.amazonaws.com"
-            value={endpoint}
-            onChange={(e) => setField('endpoint', e.target.value)}
-          />
-        </div>
-        <div className="form-group">
-          <label htmlFor="bucket">Bucket</label>
-          <input
-            type="text"
-            id="bucket"
-            placeholder="my-restic-repo"
-            value={bucket}
-            onChange={(e) => setField('bucket', e.target.value)}
-          />
-        </div>
-        <div className="form-group">
-          <label htmlFor="prefix">Prefix (optional)</label>
-          <input
-            type="text"
-            id="prefix"
-            placeholder="backups/"
-            value={prefix}
-            onChange={(e) => setField('prefix', e.target.value)}
-          />
-        </div>
-        <div className="form-group">
-          <label htmlFor="region">Region (optional)</label>
-          <input
-            type="text"
-            id="region"
-            placeholder="auto"
-            value={region}
-            onChange={(e) => setField('region', e.target.value)}
-          />
-        </div>
-        <div className="form-group">
-          <label htmlFor="accessKeyId">Access Key ID</label>
-          <input
-            type="text"
-            id="accessKeyId"
-            placeholder="AKIA..."
-            value={accessKeyId}
-            onChange={(e) => setField('accessKeyId', e.target.value)}
-          />
-        </div>
-        <div className="form-group">
-          <label htmlFor="secretAccessKey">Secret Access Key</label>
-          <PasswordInput
-            id="secretAccessKey"
-            placeholder="secret"
-            value={secretAccessKey}
-            onChange={(value) => setField('secretAccessKey', value)}
-          />
+        <div className="form-group full-width">
+          <label htmlFor="backendType">Storage Backend</label>
+          <select
+            id="backendType"
+            value={backendType}
+            onChange={(e) => setBackendType(e.target.value as BackendType)}
+          >
+            {(Object.keys(BACKEND_LABELS) as BackendType[]).map((type) => (
+              <option key={type} value={type}>{BACKEND_LABELS[type]}</option>
+            ))}
+          </select>
         </div>
+        <BackendFields type={backendType} />
         <div className="form-group full-width">
           <label htmlFor="password">Repository Password</label>
           <PasswordInput
@@ -109,10 +83,23 @@ export function ConnectionForm() {
         <button onClick={handleConnect} disabled={isConnecting}>
           {isConnecting ? 'Connecting...' : 'Connect'}
         </button>
+        {isConnecting && (
+          <button className="secondary" onClick={cancelConnect}>
+            Cancel
+          </button>
+        )}
         <button className="secondary" onClick={handleCopyLink} title="Copy shareable link with credentials">
           📋 Copy Link
         </button>
       </div>
+
+      {isConnecting && unlockProgress && (
+        <div className="unlock-progress">
+          Deriving key{unlockProgress.keys > 1 ? ` ${unlockProgress.key} of ${unlockProgress.keys}` : ''}
+          {' '}({Math.floor(unlockProgress.progress * 100)}%)
+          <progress value={unlockProgress.progress} max={1} />
+        </div>
+      )}
       
       <ConfigManager />
       
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Modal } from './Modal';
+import { S3CredentialFields } from './S3Fields';
+import { useConnectionStore } from '../store';
+
+/**
+ * Asks for fresh S3 credentials when temporary ones expire mid-session.
+ * Requests wait while it is open, so browsing continues where it left off.
+ */
+export function CredentialsModal() {
+  const {
+    credentialsExpired, accessKeyId, secretAccessKey,
+    renewCredentials, cancelCredentialsRenewal,
+  } = useConnectionStore();
+
+  const canSubmit = Boolean(accessKeyId && secretAccessKey);
+
+  return (
+    <Modal isOpen={credentialsExpired} onClose={cancelCredentialsRenewal}>
+      <h3>🔑 Credentials Expired</h3>
+      <p>The S3 session credentials have expired. Enter fresh ones to continue where you left off.</p>
+
+      <S3CredentialFields />
+
+      <div className="btn-row">
+        <button className="secondary" onClick={cancelCredentialsRenewal}>Cancel</button>
+        <button onClick={renewCredentials} disabled={!canSubmit}>Continue</button>
+      </div>
+    </Modal>
+  );
+}
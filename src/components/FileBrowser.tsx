@@ -1,8 +1,10 @@
 import React from 'react';
 import { useBrowserStore } from '../store';
 import { BreadcrumbPath } from './BreadcrumbPath';
+import { SnapshotTimeline } from './SnapshotTimeline';
 import { FileList } from './FileList';
 import { PreviewPanel } from './PreviewPanel';
+import { RestorePanel } from './RestorePanel';
 
 export function FileBrowser() {
   const currentSnapshot = useBrowserStore((state) => state.currentSnapshot);
@@ -14,12 +16,14 @@ export function FileBrowser() {
   return (
     <div className="card">
       <h2>Browse Snapshot</h2>
+      <SnapshotTimeline />
       <BreadcrumbPath />
       <div className="browser">
         <div>
           <FileList />
         </div>
         <PreviewPanel />
+        <RestorePanel />
       </div>
     </div>
   );
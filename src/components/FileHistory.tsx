@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { useHistoryStore, useBrowserStore, useUIStore } from '../store';
+import type { VersionComparison } from '../store/historyStore';
+import type { FileVersion } from '../lib/history';
+import { formatBytes, formatDate, getFileIcon } from '../utils/formatters';
+
+function VersionItem({ version, isChecked, onCheck, onDownload }: {
+  version: FileVersion;
+  isChecked: boolean;
+  onCheck: () => void;
+  onDownload: () => void;
+}) {
+  const { node, snapshots } = version;
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  const isFile = node.type === 'file';
+
+  return (
+    <div className="history-item">
+      <input
+        type="checkbox"
+        checked={isChecked}
+        onChange={onCheck}
+        disabled={!isFile}
+        title="Select two versions to compare"
+      />
+      <span className="file-icon">{getFileIcon(node)}</span>
+      <span className="history-seen">
+        <span title={`Snapshot ${first.id.substring(0, 8)}`}>{formatDate(first.time)}</span>
+        {last !== first && (
+          <> – <span title={`Snapshot ${last.id.substring(0, 8)}`}>{formatDate(last.time)}</span></>
+        )}
+        <span className="history-count">
+          {snapshots.length} snapshot{snapshots.length === 1 ? '' : 's'}
+        </span>
+      </span>
+      <span className="file-size">{isFile ? formatBytes(node.size || 0) : node.type}</span>
+      <span className="file-time">{node.mtime ? formatDate(node.mtime) : ''}</span>
+      {isFile && <button className="secondary" onClick={onDownload}>Download</button>}
+    </div>
+  );
+}
+
+function ComparisonView({ comparison, onClose }: { comparison: VersionComparison; onClose: () => void }) {
+  const { older, newer, rows, error } = comparison;
+  const label = (version: FileVersion) => formatDate(version.snapshots[version.snapshots.length - 1].time);
+
+  return (
+    <div className="history-compare">
+      <div className="history-compare-header">
+        <span>{label(older)} → {label(newer)}</span>
+        <button className="secondary" onClick={onClose}>Close</button>
+      </div>
+      {error && <div className="error-text">{error}</div>}
+      {!error && !rows && <div className="loading">Loading both versions...</div>}
+      {rows && rows.length === 0 && <div className="loading">Both versions are empty</div>}
+      {rows && rows.length > 0 && (
+        <table className="line-diff">
+          <tbody>
+            {rows.map((row, index) => row.type === 'skipped' ? (
+              <tr key={index} className="line-skipped">
+                <td colSpan={4}>⋯ {row.skipped} unchanged line{row.skipped === 1 ? '' : 's'}</td>
+              </tr>
+            ) : (
+              <tr key={index} className={`line-${row.type}`}>
+                <td className="line-number">{row.left?.number}</td>
+                <td className="line-left">{row.left?.text}</td>
+                <td className="line-number">{row.right?.number}</td>
+                <td className="line-right">{row.right?.text}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Distinct versions of a path across all snapshots, each downloadable; two
+ * text files can be compared side by side
+ */
+export function FileHistory({ path }: { path: string }) {
+  const {
+    path: loadedPath, versions, isLoading, progress, error, comparison,
+    load, compare, closeComparison, cancel,
+  } = useHistoryStore();
+  const downloadFile = useBrowserStore((state) => state.downloadFile);
+  const showToast = useUIStore((state) => state.showToast);
+  const [checked, setChecked] = useState<string[]>([]);
+
+  useEffect(() => {
+    setChecked([]);
+    if (useHistoryStore.getState().path !== path) load(path);
+  }, [path, load]);
+
+  // Keep the two most recently checked versions
+  const toggleChecked = (key: string) => {
+    setChecked((keys) => keys.includes(key) ? keys.filter((other) => other !== key) : [...keys, key].slice(-2));
+  };
+
+  const handleCompare = () => {
+    const [a, b] = checked.map((key) => versions.find((version) => version.key === key)!);
+    compare(a, b);
+  };
+
+  const handleDownload = async (version: FileVersion) => {
+    try {
+      await downloadFile(version.node);
+    } catch (err) {
+      showToast(`Download failed: ${(err as Error).message}`, 'error');
+    }
+  };
+
+  if (loadedPath !== path || isLoading) {
+    return (
+      <div className="loading">
+        {progress ? `Looking at snapshot ${progress.done} of ${progress.total}...` : 'Looking through snapshots...'}
+        {' '}<button className="secondary" onClick={cancel}>Stop</button>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="error-text">Failed to load history: {error}</div>;
+  }
+
+  if (versions.length === 0) {
+    return (
+      <div className="loading">
+        No versions found{' '}
+        <button className="secondary" onClick={() => load(path)}>Look again</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="history">
+      <div className="history-summary">
+        <span>
+          {versions.length} version{versions.length === 1 ? '' : 's'} in{' '}
+          {versions.reduce((count, version) => count + version.snapshots.length, 0)} snapshots
+        </span>
+        <button className="secondary" onClick={handleCompare} disabled={checked.length !== 2}>
+          Compare
+        </button>
+      </div>
+      <div className="file-list">
+        {versions.map((version) => (
+          <VersionItem
+            key={version.key}
+            version={version}
+            isChecked={checked.includes(version.key)}
+            onCheck={() => toggleChecked(version.key)}
+            onDownload={() => handleDownload(version)}
+          />
+        ))}
+      </div>
+      {comparison && <ComparisonView comparison={comparison} onClose={closeComparison} />}
+    </div>
+  );
+}
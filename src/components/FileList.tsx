@@ -2,10 +2,22 @@ import React from 'react';
 import { useBrowserStore } from '../store';
 import { formatBytes, formatDate, getFileIcon } from '../utils/formatters';
 import type { Node } from '../lib/types';
+import type { DiffKind } from '../lib/diff';
 
-function FileItem({ node, onSelect }: { node: Node; onSelect: () => void }) {
+const CHANGE_LABELS: Record<DiffKind, string> = {
+  added: 'New',
+  removed: 'Removed',
+  modified: 'Changed',
+  metadata: 'Metadata changed',
+};
+
+function FileItem({ node, change, onSelect }: { node: Node; change?: DiffKind; onSelect: () => void }) {
   return (
-    <div className="file-item" onClick={onSelect}>
+    <div
+      className={`file-item ${change ? `changed diff-${change}` : ''}`}
+      onClick={onSelect}
+      title={change && `${CHANGE_LABELS[change]} since the previous snapshot`}
+    >
       <span className="file-icon">{getFileIcon(node)}</span>
       <span className="file-name">{node.name}</span>
       <span className="file-size">
@@ -19,12 +31,24 @@ function FileItem({ node, onSelect }: { node: Node; onSelect: () => void }) {
 }
 
 export function FileList() {
-  const { currentTree, currentPath, isLoading, error, navigateTo, selectNode } = useBrowserStore();
+  const {
+    currentSnapshot, currentTree, currentPath, pathMissing, changes, isLoading, error,
+    navigateTo, selectNode,
+  } = useBrowserStore();
 
   if (isLoading) {
     return <div className="loading">Loading...</div>;
   }
 
+  if (pathMissing) {
+    return (
+      <div className="loading">
+        {currentPath} doesn't exist in snapshot {currentSnapshot?.id.substring(0, 8)}.{' '}
+        <button className="secondary" onClick={() => navigateTo('/')}>Open the root</button>
+      </div>
+    );
+  }
+
   if (error) {
     return <div className="error">Failed to load: {error}</div>;
   }
@@ -55,9 +79,15 @@ export function FileList() {
         <FileItem
           key={node.name}
           node={node}
+          change={changes?.changed.get(node.name)}
           onSelect={() => handleNodeClick(node)}
         />
       ))}
+      {changes && changes.removed.length > 0 && (
+        <div className="loading diff-removed">
+          Removed since {formatDate(changes.since.time)}: {changes.removed.map((node) => node.name).sort().join(', ')}
+        </div>
+      )}
     </div>
   );
 }
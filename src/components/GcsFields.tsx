@@ -0,0 +1,59 @@
+import React from 'react';
+import { useConnectionStore } from '../store';
+import { PasswordInput } from './PasswordInput';
+
+export function GcsFields() {
+  const { gcsBucket, gcsPrefix, gcsAccessToken, gcsServiceAccountKey, setField } = useConnectionStore();
+
+  const handleKeyFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setField('gcsServiceAccountKey', await file.text());
+    }
+  };
+
+  return (
+    <>
+      <div className="form-group">
+        <label htmlFor="gcsBucket">Bucket</label>
+        <input
+          type="text"
+          id="gcsBucket"
+          placeholder="my-restic-bucket"
+          value={gcsBucket}
+          onChange={(e) => setField('gcsBucket', e.target.value)}
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="gcsPrefix">Prefix (optional)</label>
+        <input
+          type="text"
+          id="gcsPrefix"
+          placeholder="backups/"
+          value={gcsPrefix}
+          onChange={(e) => setField('gcsPrefix', e.target.value)}
+        />
+      </div>
+      <div className="form-group full-width">
+        <label htmlFor="gcsAccessToken">OAuth Access Token</label>
+        <PasswordInput
+          id="gcsAccessToken"
+          placeholder="ya29... (gcloud auth print-access-token)"
+          value={gcsAccessToken}
+          onChange={(value) => setField('gcsAccessToken', value)}
+        />
+      </div>
+      <div className="form-group full-width">
+        <label htmlFor="gcsServiceAccountKey">Service Account Key (instead of a token)</label>
+        <textarea
+          id="gcsServiceAccountKey"
+          rows={3}
+          placeholder='{"type": "service_account", "client_email": "...", "private_key": "..."}'
+          value={gcsServiceAccountKey}
+          onChange={(e) => setField('gcsServiceAccountKey', e.target.value)}
+        />
+        <input type="file" accept=".json,application/json" onChange={handleKeyFile} />
+      </div>
+    </>
+  );
+}
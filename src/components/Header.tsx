@@ -1,12 +1,20 @@
 import React from 'react';
-import { useConnectionStore, useSnapshotStore, useBrowserStore } from '../store';
+import { useConnectionStore, useSnapshotStore, useBrowserStore, useRestoreStore, useDiffStore, useFindStore, useHistoryStore } from '../store';
 
 export function Header() {
-  const { isConnected, bucket, disconnect } = useConnectionStore();
+  const { isConnected, repo, retryCount, disconnect } = useConnectionStore();
   const clearSnapshots = useSnapshotStore((state) => state.clear);
   const clearBrowser = useBrowserStore((state) => state.clear);
+  const cancelRestore = useRestoreStore((state) => state.cancelRestore);
+  const clearDiff = useDiffStore((state) => state.clear);
+  const clearFind = useFindStore((state) => state.clear);
+  const clearHistory = useHistoryStore((state) => state.clear);
 
   const handleDisconnect = () => {
+    cancelRestore();
+    clearDiff();
+    clearFind();
+    clearHistory();
     clearSnapshots();
     clearBrowser();
     disconnect();
@@ -17,8 +25,13 @@ export function Header() {
       <h1>🗄️ Restic Browser</h1>
       <div className="header-right">
         <span className={`status ${isConnected ? 'connected' : ''}`}>
-          {isConnected ? `Connected to ${bucket}` : 'Not connected'}
+          {isConnected ? `Connected to ${repo?.location()}` : 'Not connected'}
         </span>
+        {isConnected && retryCount > 0 && (
+          <span className="retry-count" title="Requests retried after transient errors (throttling, 5xx, dropped connections)">
+            {retryCount} {retryCount === 1 ? 'retry' : 'retries'}
+          </span>
+        )}
         {isConnected && (
           <button className="disconnect-btn" onClick={handleDisconnect}>
             Disconnect
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { useConnectionStore, useUIStore } from '../store';
+import { canPickDirectory, pickDirectory, directoryFromDataTransfer } from '../lib/local';
+
+export function LocalFields() {
+  const { localRoot, setLocalRoot } = useConnectionStore();
+  const showToast = useUIStore((state) => state.showToast);
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const handlePick = async () => {
+    try {
+      setLocalRoot(await pickDirectory());
+    } catch (err) {
+      // Closing the picker rejects with AbortError
+      if ((err as Error).name !== 'AbortError') {
+        showToast((err as Error).message, 'error');
+      }
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const directory = directoryFromDataTransfer(e.dataTransfer);
+    if (directory) {
+      setLocalRoot(directory);
+    } else {
+      showToast('Drop a folder, not individual files', 'info');
+    }
+  };
+
+  return (
+    <div className="form-group full-width">
+      <label>Repository Folder</label>
+      <div
+        className={`drop-zone ${isDragOver ? 'drag-over' : ''}`}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+      >
+        <span>
+          {localRoot ? `📁 ${localRoot.name}` : 'Drop the repository folder here'}
+        </span>
+        {canPickDirectory() && (
+          <button type="button" className="secondary" onClick={handlePick}>
+            {localRoot ? 'Change…' : 'Choose Folder…'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
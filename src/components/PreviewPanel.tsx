@@ -1,18 +1,54 @@
-import React from 'react';
-import { useBrowserStore, useUIStore } from '../store';
-import { formatBytes, formatDate } from '../utils/formatters';
+import React, { useState } from 'react';
+import { useBrowserStore, useUIStore, type DownloadProgress } from '../store';
+import type { ArchiveFormat } from '../lib/archive';
+import { formatBytes, formatDate, formatDuration } from '../utils/formatters';
+import { FileHistory } from './FileHistory';
+
+function DownloadStatus({ progress }: { progress: DownloadProgress }) {
+  const { loaded, total, startedAt } = progress;
+  if (total === 0 && loaded === 0) {
+    return <div className="download-progress">Preparing...</div>;
+  }
+  const elapsed = (Date.now() - startedAt) / 1000;
+  const rate = elapsed > 0 ? loaded / elapsed : 0;
+  const percent = total > 0 ? Math.min(100, Math.floor((loaded / total) * 100)) : 0;
+
+  const parts = [`${formatBytes(loaded)} of ${formatBytes(total)}`];
+  if (rate > 0) {
+    parts.push(`${formatBytes(rate)}/s`);
+    if (total > loaded) parts.push(`${formatDuration((total - loaded) / rate)} left`);
+  }
+
+  return (
+    <div className="download-progress">
+      <progress value={percent} max={100} />
+      <span>{percent}% · {parts.join(' · ')}</span>
+    </div>
+  );
+}
 
 export function PreviewPanel() {
-  const { selectedNode, isDownloading, downloadFile } = useBrowserStore();
+  const {
+    selectedNode, currentTree, currentPath, isDownloading, downloadProgress,
+    downloadFile, downloadDirectory, cancelDownload,
+  } = useBrowserStore();
   const showToast = useUIStore((state) => state.showToast);
+  const [archiveFormat, setArchiveFormat] = useState<ArchiveFormat>('zip');
+  const [tab, setTab] = useState<'details' | 'history'>('details');
 
   if (!selectedNode) {
     return null;
   }
 
+  // Either an entry of the current directory or the directory itself
+  const selectedPath = currentTree?.nodes.includes(selectedNode)
+    ? `${currentPath.replace(/\/+$/, '')}/${selectedNode.name}`
+    : currentPath;
+  const hasHistory = selectedPath !== '/';
+
   const handleDownload = async () => {
     try {
-      await downloadFile();
+      await (selectedNode.type === 'dir' ? downloadDirectory(archiveFormat) : downloadFile());
     } catch (err) {
       showToast(`Download failed: ${(err as Error).message}`, 'error');
     }
@@ -36,7 +72,20 @@ export function PreviewPanel() {
     <div className="preview-panel">
       <div className="preview-header">
         <strong>{selectedNode.name}</strong>
-        {selectedNode.type === 'file' && (
+        {selectedNode.type === 'dir' && (
+          <select
+            className="archive-format"
+            value={archiveFormat}
+            onChange={(e) => setArchiveFormat(e.target.value as ArchiveFormat)}
+            disabled={isDownloading}
+            title="Archive format (tar matches restic dump)"
+          >
+            <option value="zip">ZIP</option>
+            <option value="tar">tar</option>
+            <option value="tar.gz">tar.gz</option>
+          </select>
+        )}
+        {(selectedNode.type === 'file' || selectedNode.type === 'dir') && (
           <button
             className="secondary"
             onClick={handleDownload}
@@ -45,14 +94,34 @@ export function PreviewPanel() {
             {isDownloading ? 'Downloading...' : 'Download'}
           </button>
         )}
+        {isDownloading && (
+          <button className="secondary" onClick={cancelDownload}>
+            Cancel
+          </button>
+        )}
       </div>
-      <div className="preview-info">
-        {Object.entries(info).map(([key, value]) => (
-          <span key={key} className="preview-field">
-            <span className="preview-label">{key}:</span> {value}
-          </span>
-        ))}
-      </div>
+      {isDownloading && downloadProgress && <DownloadStatus progress={downloadProgress} />}
+      {hasHistory && (
+        <div className="preview-tabs">
+          <button className={`secondary ${tab === 'details' ? 'active' : ''}`} onClick={() => setTab('details')}>
+            Details
+          </button>
+          <button className={`secondary ${tab === 'history' ? 'active' : ''}`} onClick={() => setTab('history')}>
+            History
+          </button>
+        </div>
+      )}
+      {hasHistory && tab === 'history' ? (
+        <FileHistory path={selectedPath} />
+      ) : (
+        <div className="preview-info">
+          {Object.entries(info).map(([key, value]) => (
+            <span key={key} className="preview-field">
+              <span className="preview-label">{key}:</span> {value}
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
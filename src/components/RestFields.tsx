@@ -0,0 +1,41 @@
+import React from 'react';
+import { useConnectionStore } from '../store';
+import { PasswordInput } from './PasswordInput';
+
+export function RestFields() {
+  const { restUrl, restUsername, restPassword, setField } = useConnectionStore();
+
+  return (
+    <>
+      <div className="form-group full-width">
+        <label htmlFor="restUrl">REST Server URL</label>
+        <input
+          type="text"
+          id="restUrl"
+          placeholder="https://backup.example.com:8000/my-repo"
+          value={restUrl}
+          onChange={(e) => setField('restUrl', e.target.value)}
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="restUsername">Username (optional)</label>
+        <input
+          type="text"
+          id="restUsername"
+          placeholder="restic"
+          value={restUsername}
+          onChange={(e) => setField('restUsername', e.target.value)}
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="restPassword">HTTP Password (optional)</label>
+        <PasswordInput
+          id="restPassword"
+          placeholder="basic auth password"
+          value={restPassword}
+          onChange={(value) => setField('restPassword', value)}
+        />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,117 @@
+import React from 'react';
+import { useBrowserStore, useRestoreStore, useUIStore } from '../store';
+import { canRestore, type ExistingFilePolicy, type RestoreReport } from '../lib/restore';
+import { isAbortError } from '../lib/backend';
+import { formatBytes } from '../utils/formatters';
+
+function ReportSummary({ report }: { report: RestoreReport }) {
+  const counts = [
+    `${report.files} files`,
+    `${report.directories} folders`,
+    formatBytes(report.bytes),
+  ];
+  if (report.symlinks > 0) counts.push(`${report.symlinks} symlinks as placeholder files`);
+  if (report.resumed > 0) counts.push(`${report.resumed} entries from the earlier run`);
+
+  const lists: [string, string[]][] = [
+    ['Skipped (already there)', report.skipped],
+    ['Not restorable (devices, FIFOs, sockets)', report.unsupported],
+    ['Failed', report.errors.map(({ path, message }) => `${path}: ${message}`)],
+  ];
+
+  return (
+    <div className="restore-report">
+      <span>Restored {counts.join(' · ')}</span>
+      {lists.filter(([, items]) => items.length > 0).map(([title, items]) => (
+        <details key={title}>
+          <summary>{title}: {items.length}</summary>
+          <ul>
+            {items.map((item) => <li key={item}>{item}</li>)}
+          </ul>
+        </details>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Restores the selected file or folder into a local folder, and resumes
+ * interrupted restores
+ */
+export function RestorePanel() {
+  const selectedNode = useBrowserStore((state) => state.selectedNode);
+  const {
+    existing, isRestoring, progress, report, checkpoint, error,
+    setExisting, startRestore, resumeRestore, discardCheckpoint, cancelRestore, dismissReport,
+  } = useRestoreStore();
+  const showToast = useUIStore((state) => state.showToast);
+
+  if (!canRestore()) {
+    return null;
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (err) {
+      if (isAbortError(err)) return; // Folder picker dismissed
+      showToast(`Restore failed: ${(err as Error).message}`, 'error');
+    }
+  };
+
+  const percent = progress && progress.totalBytes > 0
+    ? Math.min(100, Math.floor((progress.bytes / progress.totalBytes) * 100))
+    : 0;
+
+  return (
+    <div className="restore-panel">
+      {isRestoring ? (
+        <div className="download-progress">
+          <progress value={percent} max={100} />
+          <span>
+            {progress
+              ? `${progress.entries} of ${progress.totalEntries} entries · ${formatBytes(progress.bytes)} of ${formatBytes(progress.totalBytes)}`
+              : 'Preparing...'}
+          </span>
+          <button className="secondary" onClick={cancelRestore}>Cancel</button>
+        </div>
+      ) : (
+        <div className="config-actions">
+          <label htmlFor="restore-existing">Restore to folder:</label>
+          <select
+            id="restore-existing"
+            className="config-select"
+            value={existing}
+            onChange={(e) => setExisting(e.target.value as ExistingFilePolicy)}
+            title="What to do with files that are already in the folder"
+          >
+            <option value="skip">Skip existing files</option>
+            <option value="overwrite">Overwrite existing files</option>
+          </select>
+          <button className="secondary" onClick={() => run(startRestore)} disabled={!selectedNode}>
+            Restore {selectedNode?.name ?? ''}...
+          </button>
+        </div>
+      )}
+
+      {checkpoint && !isRestoring && (
+        <div className="restore-resume">
+          <span>
+            Restore of {checkpoint.path} into "{checkpoint.target}" was interrupted
+            after {checkpoint.entries} entries
+          </span>
+          <button className="secondary" onClick={() => run(resumeRestore)}>Resume</button>
+          <button className="secondary" onClick={discardCheckpoint}>Discard</button>
+        </div>
+      )}
+
+      {report && (
+        <div className="restore-result">
+          <ReportSummary report={report} />
+          <button className="secondary" onClick={dismissReport}>Dismiss</button>
+        </div>
+      )}
+      {error && !isRestoring && <div className="error-text">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import React from 'react';
+import { useConnectionStore } from '../store';
+import { PasswordInput } from './PasswordInput';
+
+export function S3Fields() {
+  const {
+    endpoint, bucket, prefix, region, addressingStyle, anonymous,
+    setField, setAnonymous,
+  } = useConnectionStore();
+
+  return (
+    <>
+      <div className="form-group">
+        <label htmlFor="endpoint">S3 Endpoint</label>
+        <input
+          type="text"
+          id="endpoint"
+          placeholder="https://s3.amazonaws.com"
+          value={endpoint}
+          onChange={(e) => setField('endpoint', e.target.value)}
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="bucket">Bucket</label>
+        <input
+          type="text"
+          id="bucket"
+          placeholder="my-restic-repo"
+          value={bucket}
+          onChange={(e) => setField('bucket', e.target.value)}
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="prefix">Prefix (optional)</label>
+        <input
+          type="text"
+          id="prefix"
+          placeholder="backups/"
+          value={prefix}
+          onChange={(e) => setField('prefix', e.target.value)}
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="region">Region (optional)</label>
+        <input
+          type="text"
+          id="region"
+          placeholder="Detected when connecting"
+          value={region}
+          onChange={(e) => setField('region', e.target.value)}
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="addressingStyle">Addressing</label>
+        <select
+          id="addressingStyle"
+          value={addressingStyle}
+          onChange={(e) => setField('addressingStyle', e.target.value)}
+        >
+          <option value="">Detect when connecting</option>
+          <option value="path">Path-style (endpoint/bucket)</option>
+          <option value="virtual">Virtual-hosted (bucket.endpoint)</option>
+        </select>
+      </div>
+      <div className="checkbox-group">
+        <input
+          type="checkbox"
+          id="anonymous"
+          checked={anonymous}
+          onChange={(e) => setAnonymous(e.target.checked)}
+        />
+        <label htmlFor="anonymous">Anonymous access (public bucket, unsigned requests)</label>
+      </div>
+      {!anonymous && <S3CredentialFields />}
+    </>
+  );
+}
+
+/**
+ * Access key fields, also used to renew expired temporary credentials
+ */
+export function S3CredentialFields() {
+  const {
+    accessKeyId, secretAccessKey, sessionToken, sessionExpiry,
+    setField,
+  } = useConnectionStore();
+
+  return (
+    <>
+      <div className="form-group">
+        <label htmlFor="accessKeyId">Access Key ID</label>
+        <input
+          type="text"
+          id="accessKeyId"
+          placeholder="AKIA..."
+          value={accessKeyId}
+          onChange={(e) => setField('accessKeyId', e.target.value)}
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="secretAccessKey">Secret Access Key</label>
+        <PasswordInput
+          id="secretAccessKey"
+          placeholder="secret"
+          value={secretAccessKey}
+          onChange={(value) => setField('secretAccessKey', value)}
+        />
+      </div>
+      <div className="form-group">
+        <label htmlFor="sessionToken">Session Token (optional)</label>
+        <PasswordInput
+          id="sessionToken"
+          placeholder="For temporary credentials (SSO, AssumeRole)"
+          value={sessionToken}
+          onChange={(value) => setField('sessionToken', value)}
+        />
+      </div>
+      {sessionToken && (
+        <div className="form-group">
+          <label htmlFor="sessionExpiry">Session Expires (optional)</label>
+          <input
+            type="datetime-local"
+            id="sessionExpiry"
+            value={sessionExpiry}
+            onChange={(e) => setField('sessionExpiry', e.target.value)}
+          />
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { useFindStore, useSnapshotStore, useBrowserStore } from '../store';
+import { formatBytes, formatDate, getFileIcon } from '../utils/formatters';
+import type { FindMatch, FindQuery } from '../lib/find';
+import type { NodeType } from '../lib/types';
+
+// Longest result list rendered at once
+const MAX_SHOWN = 1000;
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 };
+
+/**
+ * Parse a size like "512", "10k", "1.5M" or "2 GB"; undefined when empty
+ */
+function parseSize(text: string): number | undefined {
+  const match = text.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?)i?b?$/);
+  if (!text.trim()) return undefined;
+  if (!match) throw new Error(`Invalid size: ${text}`);
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[match[2]]);
+}
+
+/**
+ * The first `limit` matches, without going through the rest
+ */
+function firstMatches(batches: FindMatch[][], limit: number): FindMatch[] {
+  const shown: FindMatch[] = [];
+  for (const batch of batches) {
+    shown.push(...batch.slice(0, limit - shown.length));
+    if (shown.length === limit) break;
+  }
+  return shown;
+}
+
+/**
+ * Searches the current or all snapshots for files, like `restic find`;
+ * clicking a result opens its folder in the browser
+ */
+export function SearchPanel() {
+  const { results, batches, count, isSearching, progress, truncated, error, search, cancel, clear } = useFindStore();
+  const snapshots = useSnapshotStore((state) => state.snapshots);
+  const { currentSnapshot, revealPath } = useBrowserStore();
+
+  const [pattern, setPattern] = useState('');
+  const [syntax, setSyntax] = useState<FindQuery['syntax']>('glob');
+  const [ignoreCase, setIgnoreCase] = useState(true);
+  const [type, setType] = useState<NodeType | ''>('');
+  const [minSize, setMinSize] = useState('');
+  const [maxSize, setMaxSize] = useState('');
+  const [newerThan, setNewerThan] = useState('');
+  const [olderThan, setOlderThan] = useState('');
+  const [scope, setScope] = useState<'current' | 'all'>('all');
+  const [formError, setFormError] = useState('');
+
+  const shown = firstMatches(isSearching ? batches : [results], MAX_SHOWN);
+
+  const handleSearch = () => {
+    if (!pattern) {
+      setFormError('Enter a pattern (e.g. *.pdf)');
+      return;
+    }
+    let query: FindQuery;
+    try {
+      query = {
+        pattern,
+        syntax,
+        ignoreCase,
+        type: type || undefined,
+        minSize: parseSize(minSize),
+        maxSize: parseSize(maxSize),
+        // Local days, the second one included
+        newerThan: newerThan ? new Date(`${newerThan}T00:00`).getTime() : undefined,
+        olderThan: olderThan ? new Date(`${olderThan}T23:59:59.999`).getTime() : undefined,
+      };
+    } catch (err) {
+      setFormError((err as Error).message);
+      return;
+    }
+    setFormError('');
+    const scoped = scope === 'current' && currentSnapshot ? [currentSnapshot] : snapshots;
+    search(query, scoped);
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSearch();
+    }
+  };
+
+  return (
+    <div className="card">
+      <h2>Find Files</h2>
+
+      <div className="search-form">
+        <input
+          type="text"
+          className="config-input"
+          placeholder={syntax === 'glob' ? 'Pattern, e.g. *.pdf or home/*/Documents/**' : 'Regular expression, matched against the path'}
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          onKeyPress={handleKeyPress}
+        />
+        <select className="config-select" value={syntax} onChange={(e) => setSyntax(e.target.value as FindQuery['syntax'])}>
+          <option value="glob">Glob</option>
+          <option value="regex">Regex</option>
+        </select>
+        <select className="config-select" value={scope} onChange={(e) => setScope(e.target.value as 'current' | 'all')}>
+          <option value="all">All snapshots</option>
+          <option value="current" disabled={!currentSnapshot}>Current snapshot</option>
+        </select>
+      </div>
+
+      <div className="search-filters">
+        <label>
+          <input type="checkbox" checked={ignoreCase} onChange={(e) => setIgnoreCase(e.target.checked)} />
+          Ignore case
+        </label>
+        <select className="config-select" value={type} onChange={(e) => setType(e.target.value as NodeType | '')}>
+          <option value="">Any type</option>
+          <option value="file">Files</option>
+          <option value="dir">Directories</option>
+          <option value="symlink">Symlinks</option>
+        </select>
+        <input type="text" className="config-input" placeholder="Min size (e.g. 10M)" value={minSize} onChange={(e) => setMinSize(e.target.value)} onKeyPress={handleKeyPress} />
+        <input type="text" className="config-input" placeholder="Max size" value={maxSize} onChange={(e) => setMaxSize(e.target.value)} onKeyPress={handleKeyPress} />
+        <label>
+          Modified from
+          <input type="date" className="config-input" value={newerThan} onChange={(e) => setNewerThan(e.target.value)} />
+        </label>
+        <label>
+          to
+          <input type="date" className="config-input" value={olderThan} onChange={(e) => setOlderThan(e.target.value)} />
+        </label>
+      </div>
+
+      <div className="btn-row">
+        <button onClick={handleSearch} disabled={isSearching}>
+          {isSearching ? 'Searching...' : 'Search'}
+        </button>
+        {isSearching && <button className="secondary" onClick={cancel}>Stop</button>}
+        {!isSearching && count > 0 && <button className="secondary" onClick={clear}>Clear</button>}
+      </div>
+
+      {(formError || error) && <div className="error-text">{formError || error}</div>}
+      {isSearching && progress && (
+        <div className="loading">
+          Searching snapshot {progress.snapshot} of {progress.snapshots}... {count} found
+        </div>
+      )}
+      {!isSearching && truncated && (
+        <div className="loading">Stopped after {count} matches; narrow the search to see the rest</div>
+      )}
+
+      {shown.length > 0 && (
+        <div className="file-list search-results">
+          {shown.map(({ snapshot, path, node }) => (
+            <div
+              key={`${snapshot.id}:${path}`}
+              className="file-item"
+              onClick={() => revealPath(snapshot, path)}
+              title={`Open in ${snapshot.id.substring(0, 8)}`}
+            >
+              <span className="file-icon">{getFileIcon(node)}</span>
+              <span className="file-name">
+                <span className="snapshot-id">{snapshot.id.substring(0, 8)}</span> {path}
+              </span>
+              <span className="file-size">{node.type === 'file' ? formatBytes(node.size || 0) : ''}</span>
+              <span className="file-time">{node.mtime ? formatDate(node.mtime) : ''}</span>
+            </div>
+          ))}
+          {count > shown.length && (
+            <div className="loading">…and {count - shown.length} more</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
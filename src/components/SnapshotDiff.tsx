@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { useDiffStore, useBrowserStore } from '../store';
+import { formatBytes, formatDate } from '../utils/formatters';
+import type { DiffEntry, DiffKind, DiffStats } from '../lib/diff';
+
+// Longest list rendered at once; the rest is summarized
+const MAX_SHOWN = 1000;
+
+// Markers as printed by `restic diff`
+const MARKERS: Record<DiffKind, string> = {
+  added: '+',
+  removed: '-',
+  modified: 'M',
+  metadata: 'U',
+};
+
+const FILTERS: { kind: DiffKind | 'all'; label: string }[] = [
+  { kind: 'all', label: 'All' },
+  { kind: 'added', label: 'Added' },
+  { kind: 'removed', label: 'Removed' },
+  { kind: 'modified', label: 'Modified' },
+  { kind: 'metadata', label: 'Metadata' },
+];
+
+function DiffSummary({ stats }: { stats: DiffStats }) {
+  const { added, removed, modified } = stats;
+  return (
+    <div className="diff-summary">
+      <span className="diff-added">
+        + {added.files} files, {added.dirs} dirs, {added.others} others · {formatBytes(added.bytes)}
+      </span>
+      <span className="diff-removed">
+        - {removed.files} files, {removed.dirs} dirs, {removed.others} others · {formatBytes(removed.bytes)}
+      </span>
+      <span className="diff-modified">
+        M {modified.files} files · {formatBytes(modified.bytesBefore)} → {formatBytes(modified.bytesAfter)}
+      </span>
+      <span className="diff-metadata">U {stats.metadata} metadata only</span>
+    </div>
+  );
+}
+
+function DiffItem({ entry, onSelect }: { entry: DiffEntry; onSelect: () => void }) {
+  const { kind, path, node, before } = entry;
+  const size = node.type !== 'file'
+    ? ''
+    : kind === 'modified'
+      ? `${formatBytes(before?.size || 0)} → ${formatBytes(node.size || 0)}`
+      : formatBytes(node.size || 0);
+
+  return (
+    <div className="file-item" onClick={onSelect} title={`Browse ${path}`}>
+      <span className={`file-icon diff-${kind}`}>{MARKERS[kind]}</span>
+      <span className="file-name">{node.type === 'dir' ? `${path}/` : path}</span>
+      <span className="file-size">{size}</span>
+      <span className="file-time">{node.mtime ? formatDate(node.mtime) : ''}</span>
+    </div>
+  );
+}
+
+/**
+ * Up to `limit` entries of the given kind, without going through the rest
+ */
+function firstEntries(batches: DiffEntry[][], filter: DiffKind | 'all', limit: number): DiffEntry[] {
+  const shown: DiffEntry[] = [];
+  for (const batch of batches) {
+    for (const entry of batch) {
+      if (shown.length === limit) return shown;
+      if (filter === 'all' || entry.kind === filter) shown.push(entry);
+    }
+  }
+  return shown;
+}
+
+/**
+ * Changes between two snapshots; clicking an entry opens it in the browser
+ * (in the older snapshot for removed entries)
+ */
+export function SnapshotDiff() {
+  const { from, to, entries, batches, counts, stats, isComparing, error, cancel, clear } = useDiffStore();
+  const revealPath = useBrowserStore((state) => state.revealPath);
+  const [filter, setFilter] = useState<DiffKind | 'all'>('all');
+
+  if (!from || !to) {
+    return null;
+  }
+
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  const matching = filter === 'all' ? total : counts[filter];
+  const shown = firstEntries(isComparing ? batches : [entries], filter, MAX_SHOWN);
+
+  return (
+    <div className="card">
+      <h2>
+        Compare {from.id.substring(0, 8)} ({formatDate(from.time)}) → {to.id.substring(0, 8)} ({formatDate(to.time)})
+      </h2>
+
+      <div className="config-actions">
+        {FILTERS.map(({ kind, label }) => (
+          <button
+            key={kind}
+            className={`secondary ${filter === kind ? 'active' : ''}`}
+            onClick={() => setFilter(kind)}
+          >
+            {label}
+          </button>
+        ))}
+        {isComparing && <button className="secondary" onClick={cancel}>Stop</button>}
+        <button className="secondary" onClick={clear}>Close</button>
+      </div>
+
+      {stats && <DiffSummary stats={stats} />}
+      {error && <div className="error">Comparison failed: {error}</div>}
+      {isComparing && <div className="loading">Comparing... {total} changes so far</div>}
+      {!isComparing && !error && total === 0 && <div className="loading">No differences</div>}
+
+      {shown.length > 0 && (
+        <div className="file-list">
+          {shown.map((entry) => (
+            <DiffItem
+              key={`${entry.kind}:${entry.path}`}
+              entry={entry}
+              onSelect={() => revealPath(entry.kind === 'removed' ? from : to, entry.path)}
+            />
+          ))}
+          {matching > shown.length && (
+            <div className="loading">…and {matching - shown.length} more</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
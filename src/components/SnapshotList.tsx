@@ -1,18 +1,27 @@
-import React from 'react';
-import { useSnapshotStore, useBrowserStore } from '../store';
+import React, { useState } from 'react';
+import { useSnapshotStore, useBrowserStore, useDiffStore } from '../store';
 import { formatDate } from '../utils/formatters';
 import type { SnapshotWithId } from '../lib/types';
 
-function SnapshotItem({ snapshot, isActive, onSelect }: {
+function SnapshotItem({ snapshot, isActive, isChecked, onSelect, onCheck }: {
   snapshot: SnapshotWithId;
   isActive: boolean;
+  isChecked: boolean;
   onSelect: () => void;
+  onCheck: () => void;
 }) {
   return (
     <div
       className={`snapshot-item ${isActive ? 'active' : ''}`}
       onClick={onSelect}
     >
+      <input
+        type="checkbox"
+        checked={isChecked}
+        onChange={onCheck}
+        onClick={(e) => e.stopPropagation()}
+        title="Select two snapshots to compare"
+      />
       <span className="snapshot-id">{snapshot.id.substring(0, 8)}</span>
       <span className="snapshot-time">{formatDate(snapshot.time)}</span>
       <span className="snapshot-meta">{snapshot.hostname || 'unknown'}</span>
@@ -29,6 +38,18 @@ function SnapshotItem({ snapshot, isActive, onSelect }: {
 export function SnapshotList() {
   const { snapshots, isLoading, error } = useSnapshotStore();
   const { currentSnapshot, selectSnapshot } = useBrowserStore();
+  const compare = useDiffStore((state) => state.compare);
+  const [checked, setChecked] = useState<string[]>([]);
+
+  // Keep the two most recently checked snapshots
+  const toggleChecked = (id: string) => {
+    setChecked((ids) => ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id].slice(-2));
+  };
+
+  const handleCompare = () => {
+    const [a, b] = checked.map((id) => snapshots.find((snapshot) => snapshot.id === id)!);
+    compare(a, b);
+  };
 
   if (isLoading) {
     return (
@@ -59,14 +80,26 @@ export function SnapshotList() {
 
   return (
     <div className="card">
-      <h2>Snapshots</h2>
+      <div className="card-title">
+        <h2>Snapshots</h2>
+        <button
+          className="secondary"
+          onClick={handleCompare}
+          disabled={checked.length !== 2}
+          title="Show what changed between the two checked snapshots"
+        >
+          Compare
+        </button>
+      </div>
       <div className="snapshots-list">
         {snapshots.map((snapshot) => (
           <SnapshotItem
             key={snapshot.id}
             snapshot={snapshot}
             isActive={currentSnapshot?.id === snapshot.id}
+            isChecked={checked.includes(snapshot.id)}
             onSelect={() => selectSnapshot(snapshot)}
+            onCheck={() => toggleChecked(snapshot.id)}
           />
         ))}
       </div>
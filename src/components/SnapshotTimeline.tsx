@@ -0,0 +1,46 @@
+import React from 'react';
+import { useBrowserStore, useSnapshotStore } from '../store';
+import { snapshotTimeline } from '../store/browserStore';
+import { formatDate } from '../utils/formatters';
+
+/**
+ * Steps to older or newer snapshots while staying in the current folder
+ */
+export function SnapshotTimeline() {
+  const { currentSnapshot, sameSource, selectSnapshot, stepSnapshot, setSameSource } = useBrowserStore();
+  const snapshots = useSnapshotStore((state) => state.snapshots);
+
+  if (!currentSnapshot) {
+    return null;
+  }
+
+  const timeline = snapshotTimeline(snapshots, currentSnapshot, sameSource);
+  const index = timeline.findIndex((snapshot) => snapshot.id === currentSnapshot.id);
+
+  return (
+    <div className="snapshot-timeline">
+      <button className="secondary" onClick={() => stepSnapshot(-1)} disabled={index <= 0} title="Same folder in the previous snapshot">
+        ◀ Older
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={Math.max(0, timeline.length - 1)}
+        value={Math.max(0, index)}
+        onChange={(e) => selectSnapshot(timeline[Number(e.target.value)], true)}
+        disabled={timeline.length < 2}
+      />
+      <button className="secondary" onClick={() => stepSnapshot(1)} disabled={index < 0 || index >= timeline.length - 1} title="Same folder in the next snapshot">
+        Newer ▶
+      </button>
+      <span className="timeline-position">
+        <span className="snapshot-id">{currentSnapshot.id.substring(0, 8)}</span>
+        {formatDate(currentSnapshot.time)} · {index + 1} of {timeline.length}
+      </span>
+      <label title={`Only snapshots of ${currentSnapshot.hostname || 'this host'} with the same paths`}>
+        <input type="checkbox" checked={sameSource} onChange={(e) => setSameSource(e.target.checked)} />
+        Same host and paths
+      </label>
+    </div>
+  );
+}
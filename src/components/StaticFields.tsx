@@ -0,0 +1,19 @@
+import React from 'react';
+import { useConnectionStore } from '../store';
+
+export function StaticFields() {
+  const { staticUrl, setField } = useConnectionStore();
+
+  return (
+    <div className="form-group full-width">
+      <label htmlFor="staticUrl">Repository URL</label>
+      <input
+        type="text"
+        id="staticUrl"
+        placeholder="https://example.github.io/my-repo"
+        value={staticUrl}
+        onChange={(e) => setField('staticUrl', e.target.value)}
+      />
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 export { Header } from './Header';
 export { ConnectionForm } from './ConnectionForm';
 export { ConfigManager } from './ConfigManager';
+export { CacheControls } from './CacheControls';
 export { SnapshotList } from './SnapshotList';
 export { FileBrowser } from './FileBrowser';
+export { SnapshotDiff } from './SnapshotDiff';
+export { SearchPanel } from './SearchPanel';
 export { EncryptModal } from './EncryptModal';
 export { DecryptModal } from './DecryptModal';
+export { CredentialsModal } from './CredentialsModal';
 export { ToastContainer } from './Toast';
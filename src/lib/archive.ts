@@ -0,0 +1,168 @@
+/**
+ * Archive Entries
+ *
+ * Turns a directory in a snapshot into a stream of entries for the archive
+ * writers (zip.ts, tar.ts), opening file contents lazily so that only the file
+ * being written is loaded.
+ */
+
+import type { Node } from './types';
+import { idFromHex } from './types';
+import type { Repository } from './repository';
+import { base64ToBytes } from './crypto';
+import { createZipStream } from './zip';
+import { createTarStream } from './tar';
+
+export interface ArchiveEntry {
+  path: string; // Relative, '/'-separated, without a trailing slash
+  type: 'file' | 'directory' | 'symlink' | 'chardev' | 'blockdev' | 'fifo';
+  mtime?: string; // RFC 3339, as stored by restic
+  atime?: string;
+  ctime?: string;
+  mode?: number; // Unix permission bits, including setuid/setgid/sticky
+  uid?: number;
+  gid?: number;
+  user?: string;
+  group?: string;
+  size?: number; // Expected file size
+  data?: () => ReadableStream<Uint8Array>; // File content, opened when the entry is written
+  linkTarget?: string;
+  devMajor?: number;
+  devMinor?: number;
+  xattrs?: { name: string; value: Uint8Array }[];
+}
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+export interface ArchiveOptions {
+  signal?: AbortSignal;
+  // Path of the directory's entries; defaults to the directory's name. Use
+  // '' for entries relative to the directory itself.
+  basePath?: string;
+  includeDir?: boolean; // Emit an entry for the directory itself (default true)
+  onTotal?: (bytes: number) => void; // Total file size, known once the tree has been scanned
+  onProgress?: (bytes: number) => void; // Called with the size of each chunk of file content read
+}
+
+// Go os.FileMode bits restic stores for the special permission bits
+const GO_MODE_SETUID = 1 << 23;
+const GO_MODE_SETGID = 1 << 22;
+const GO_MODE_STICKY = 1 << 20;
+
+/**
+ * Unix permission bits from a node's mode (a Go os.FileMode)
+ */
+function unixMode(mode: number): number {
+  let result = mode & 0o777;
+  if (mode & GO_MODE_SETUID) result |= 0o4000;
+  if (mode & GO_MODE_SETGID) result |= 0o2000;
+  if (mode & GO_MODE_STICKY) result |= 0o1000;
+  return result;
+}
+
+/**
+ * Major and minor numbers of a Linux device number (glibc's encoding)
+ */
+function splitDevice(device: number): { devMajor: number; devMinor: number } {
+  const high = Math.floor(device / 2 ** 32);
+  const low = device >>> 0;
+  return {
+    devMajor: (((low >>> 8) & 0xfff) | (high & ~0xfff)) >>> 0,
+    devMinor: ((low & 0xff) | ((low >>> 12) & ~0xff)) >>> 0,
+  };
+}
+
+/**
+ * Convert a node to an archive entry; null for types archives can't hold
+ * (sockets, irregular files)
+ */
+function toEntry(repo: Repository, path: string, node: Node, options: ArchiveOptions): ArchiveEntry | null {
+  const base = {
+    path,
+    mtime: node.mtime,
+    atime: node.atime,
+    ctime: node.ctime,
+    mode: node.mode !== undefined ? unixMode(node.mode) : undefined,
+    uid: node.uid,
+    gid: node.gid,
+    user: node.user,
+    group: node.group,
+    xattrs: node.extended_attributes?.map(({ name, value }) => ({ name, value: base64ToBytes(value ?? '') })),
+  };
+
+  switch (node.type) {
+    case 'dir':
+      return { ...base, type: 'directory' };
+    case 'symlink':
+      return { ...base, type: 'symlink', linkTarget: node.linktarget ?? '' };
+    case 'dev':
+      return { ...base, type: 'blockdev', ...splitDevice(node.device ?? 0) };
+    case 'chardev':
+      return { ...base, type: 'chardev', ...splitDevice(node.device ?? 0) };
+    case 'fifo':
+      return { ...base, type: 'fifo' };
+    case 'file':
+      return {
+        ...base,
+        type: 'file',
+        size: node.size ?? 0,
+        data: () => repo.openFileStream(node, options.signal).pipeThrough(
+          new TransformStream<Uint8Array, Uint8Array>({
+            transform: (chunk, stream) => {
+              options.onProgress?.(chunk.length);
+              stream.enqueue(chunk);
+            },
+          })
+        ),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Entries for a directory node and everything below it, with paths starting
+ * at `options.basePath`. The tree is walked once, keeping the nodes to total
+ * up the file sizes for progress before any entry is produced.
+ */
+export async function* directoryEntries(
+  repo: Repository,
+  dir: Node,
+  options: ArchiveOptions = {}
+): AsyncGenerator<ArchiveEntry> {
+  if (dir.type !== 'dir' || !dir.subtree) {
+    throw new Error('Not a directory');
+  }
+  const treeId = idFromHex(dir.subtree);
+
+  const nodes: { path: string; node: Node }[] = [];
+  let total = 0;
+  for await (const item of repo.walkTree(treeId, options.signal)) {
+    nodes.push(item);
+    if (item.node.type === 'file') total += item.node.size ?? 0;
+  }
+  options.onTotal?.(total);
+
+  const basePath = options.basePath ?? dir.name;
+  if (options.includeDir ?? true) {
+    yield toEntry(repo, basePath, dir, options)!;
+  }
+  for (const { path, node } of nodes) {
+    const entry = toEntry(repo, basePath ? `${basePath}/${path}` : path, node, options);
+    if (entry) yield entry;
+  }
+}
+
+/**
+ * Stream `entries` as an archive in the given format
+ */
+export function createArchiveStream(format: ArchiveFormat, entries: AsyncIterable<ArchiveEntry>): ReadableStream<Uint8Array> {
+  switch (format) {
+    case 'zip':
+      return createZipStream(entries);
+    case 'tar':
+      return createTarStream(entries);
+    case 'tar.gz':
+      return createTarStream(entries, true);
+  }
+}
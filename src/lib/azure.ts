@@ -0,0 +1,278 @@
+/**
+ * Azure Blob Storage Backend for Restic
+ *
+ * Reads `azure:` repositories through the Blob service REST API,
+ * authenticated with a SAS token or the storage account's shared key.
+ */
+
+import type { AzureConfig } from './types';
+import {
+  type Backend,
+  type BackendOptions,
+  type FileInfo,
+  type FileType,
+  type RequestOptions,
+  getSubdir,
+  getFilePath,
+  diagnoseNetworkError,
+  isAbortError,
+  unquoteEtag,
+} from './backend';
+import { HttpClient } from './http';
+import { base64ToBytes, bytesToBase64 } from './crypto';
+
+// Service version sent with every request (required for shared key auth)
+const AZURE_API_VERSION = '2021-08-06';
+
+/**
+ * CORS setup advice for Azure storage accounts
+ */
+function azureCorsHelp(origin: string): string {
+  let help = '\n\nAdd a CORS rule for the Blob service of the storage account:';
+  help += '\n\naz storage cors add --services b --methods GET HEAD OPTIONS \\';
+  help += '\n  --origins "' + origin + '" \\';
+  help += '\n  --allowed-headers "authorization,x-ms-*,range" \\';
+  help += '\n  --exposed-headers "content-length,content-range,etag,x-ms-*" \\';
+  help += '\n  --max-age 3600 --account-name <account>';
+  help += '\n\nOr in the Azure Portal: Storage account → Settings → Resource sharing (CORS) → Blob service.';
+  return help;
+}
+
+export class AzureBackend implements Backend {
+  private accountName: string;
+  private container: string;
+  private prefix: string;
+  private endpoint: string;
+  private sasParams: URLSearchParams | null;
+  private signingKey: Promise<CryptoKey> | null = null;
+  private http: HttpClient;
+
+  constructor(config: AzureConfig, options: BackendOptions = {}) {
+    this.http = new HttpClient(undefined, options);
+    this.accountName = config.accountName;
+    this.container = config.container;
+    this.prefix = (config.prefix || '').replace(/^\/+|\/+$/g, '');
+    this.endpoint = (config.endpoint || `https://${config.accountName}.blob.core.windows.net`).replace(/\/+$/, '');
+    this.sasParams = config.sasToken ? new URLSearchParams(config.sasToken.replace(/^\?/, '')) : null;
+
+    if (!this.sasParams && config.accountKey) {
+      this.signingKey = crypto.subtle.importKey(
+        'raw',
+        new Uint8Array(base64ToBytes(config.accountKey)),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+      );
+    }
+  }
+
+  private getBlobUrl(path: string): URL {
+    const fullPath = this.prefix ? `${this.prefix}/${path}` : path;
+    const encoded = fullPath.split('/').map(encodeURIComponent).join('/');
+    return new URL(`${this.endpoint}/${this.container}/${encoded}`);
+  }
+
+  /**
+   * Sign and send a request, turning failures into descriptive errors
+   */
+  private async request(
+    url: URL,
+    description: string,
+    init: { method?: string; headers?: Record<string, string>; signal?: AbortSignal } = {}
+  ): Promise<Response> {
+    const method = init.method || 'GET';
+    const headers: Record<string, string> = {
+      'x-ms-version': AZURE_API_VERSION,
+      'x-ms-date': new Date().toUTCString(),
+      ...init.headers,
+    };
+
+    if (this.sasParams) {
+      for (const [key, value] of this.sasParams) {
+        url.searchParams.set(key, value);
+      }
+    } else if (this.signingKey) {
+      headers['Authorization'] = await this.sign(method, url, headers);
+    }
+
+    const href = url.toString();
+    let response: Response;
+    try {
+      response = await this.http.send(href, { method, headers, signal: init.signal });
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      const error = err as Error;
+      const hint = await diagnoseNetworkError(href, error, azureCorsHelp);
+      throw new Error(`Network error ${description}\nURL: ${redactSas(href)}\nError: ${error.message}${hint}`);
+    }
+
+    if (!response.ok) {
+      let body = '';
+      try {
+        body = await response.text();
+      } catch {
+        // ignore
+      }
+      const authHint = response.status === 403
+        ? '\n\nCheck that the SAS token is valid, not expired, and grants read (r) and list (l) permissions.'
+        : '';
+      throw new Error(`Failed ${description}\nHTTP ${response.status} ${response.statusText}\nURL: ${redactSas(href)}${body ? `\nResponse: ${body.substring(0, 500)}` : ''}${authHint}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Build a Shared Key Authorization header
+   * See https://learn.microsoft.com/rest/api/storageservices/authorize-with-shared-key
+   */
+  private async sign(method: string, url: URL, headers: Record<string, string>): Promise<string> {
+    const canonicalHeaders = Object.keys(headers)
+      .map((name) => name.toLowerCase())
+      .filter((name) => name.startsWith('x-ms-'))
+      .sort()
+      .map((name) => `${name}:${headerValue(headers, name).trim()}\n`)
+      .join('');
+
+    let canonicalResource = `/${this.accountName}${url.pathname}`;
+    const paramNames = [...new Set([...url.searchParams.keys()])].sort();
+    for (const name of paramNames) {
+      canonicalResource += `\n${name.toLowerCase()}:${url.searchParams.getAll(name).sort().join(',')}`;
+    }
+
+    const stringToSign = [
+      method,
+      '', // Content-Encoding
+      '', // Content-Language
+      '', // Content-Length
+      '', // Content-MD5
+      '', // Content-Type
+      '', // Date (x-ms-date is used instead)
+      '', // If-Modified-Since
+      '', // If-Match
+      '', // If-None-Match
+      '', // If-Unmodified-Since
+      '', // Range (x-ms-range is used instead)
+    ].join('\n') + '\n' + canonicalHeaders + canonicalResource;
+
+    const key = await this.signingKey!;
+    const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(stringToSign));
+    return `SharedKey ${this.accountName}:${bytesToBase64(new Uint8Array(signature))}`;
+  }
+
+  /**
+   * Human-readable description of the container and prefix
+   */
+  location(): string {
+    const container = `${this.accountName}/${this.container}`;
+    return this.prefix ? `${container}/${this.prefix}` : container;
+  }
+
+  /**
+   * Load a file from the repository
+   */
+  async load(fileType: FileType, name: string, options: RequestOptions = {}): Promise<Uint8Array> {
+    const url = this.getBlobUrl(getFilePath(fileType, name));
+    const response = await this.request(url, `loading ${fileType}/${name}`, { signal: options.signal });
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  /**
+   * Load partial content from a file
+   */
+  async loadPartial(
+    fileType: FileType,
+    name: string,
+    offset: number,
+    length: number,
+    options: RequestOptions = {}
+  ): Promise<Uint8Array> {
+    const url = this.getBlobUrl(getFilePath(fileType, name));
+    const end = offset + length - 1;
+    const response = await this.request(url, `loading ${fileType}/${name} (range ${offset}-${end})`, {
+      headers: { 'x-ms-range': `bytes=${offset}-${end}` },
+      signal: options.signal,
+    });
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  /**
+   * List files of a specific type (List Blobs, following NextMarker)
+   */
+  async list(fileType: FileType, options: RequestOptions = {}): Promise<FileInfo[]> {
+    const subdir = getSubdir(fileType);
+    const prefix = this.prefix ? `${this.prefix}/${subdir}/` : `${subdir}/`;
+
+    const files: FileInfo[] = [];
+    let marker: string | undefined;
+
+    do {
+      const url = new URL(`${this.endpoint}/${this.container}`);
+      url.searchParams.set('restype', 'container');
+      url.searchParams.set('comp', 'list');
+      url.searchParams.set('prefix', prefix);
+      if (marker) {
+        url.searchParams.set('marker', marker);
+      }
+
+      const response = await this.request(url, `listing ${fileType}`, { signal: options.signal });
+      const xml = new DOMParser().parseFromString(await response.text(), 'text/xml');
+
+      const blobs = xml.getElementsByTagName('Blob');
+      for (let i = 0; i < blobs.length; i++) {
+        const blobName = blobs[i].getElementsByTagName('Name')[0]?.textContent;
+        const filename = blobName?.split('/').pop();
+        if (!filename) {
+          continue;
+        }
+        const property = (name: string) => blobs[i].getElementsByTagName(name)[0]?.textContent || undefined;
+        const size = property('Content-Length');
+        const lastModified = property('Last-Modified');
+        files.push({
+          name: filename,
+          size: size ? parseInt(size, 10) : undefined,
+          lastModified: lastModified ? new Date(lastModified) : undefined,
+          etag: unquoteEtag(property('Etag')),
+        });
+      }
+
+      marker = xml.getElementsByTagName('NextMarker')[0]?.textContent || undefined;
+    } while (marker);
+
+    return files;
+  }
+
+  /**
+   * Check if a file exists
+   */
+  async exists(fileType: FileType, name: string, options: RequestOptions = {}): Promise<boolean> {
+    try {
+      await this.getSize(fileType, name, options);
+      return true;
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      return false;
+    }
+  }
+
+  /**
+   * Get file size
+   */
+  async getSize(fileType: FileType, name: string, options: RequestOptions = {}): Promise<number> {
+    const url = this.getBlobUrl(getFilePath(fileType, name));
+    const response = await this.request(url, `getting size of ${fileType}/${name}`, { method: 'HEAD', signal: options.signal });
+    return parseInt(response.headers.get('Content-Length') || '0', 10);
+  }
+}
+
+function headerValue(headers: Record<string, string>, lowerName: string): string {
+  const key = Object.keys(headers).find((name) => name.toLowerCase() === lowerName);
+  return key ? headers[key] : '';
+}
+
+/**
+ * Hide the SAS signature in URLs shown to the user
+ */
+function redactSas(url: string): string {
+  return url.replace(/([?&]sig=)[^&]+/, '$1REDACTED');
+}
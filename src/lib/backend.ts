@@ -0,0 +1,175 @@
+/**
+ * Storage Backend Interface
+ *
+ * Every storage driver (S3, ...) implements `Backend` so that the
+ * repository can read files without knowing where they live.
+ */
+
+import type { HttpClientOptions } from './http';
+import type { S3Credentials } from './types';
+
+export type FileType =
+  | 'data'      // Pack files in data/XX/
+  | 'keys'      // Key files in keys/
+  | 'locks'     // Lock files in locks/
+  | 'snapshots' // Snapshot files in snapshots/
+  | 'index'     // Index files in index/
+  | 'config';   // Config file
+
+// Options shared by all backends (HTTP backends use them for their request layer)
+export interface BackendOptions extends HttpClientOptions {
+  maxInFlight?: number; // Concurrent request cap for the scheduler
+  // Asked for fresh credentials when temporary ones expire; null gives up
+  onCredentialsExpired?: () => Promise<S3Credentials | null>;
+}
+
+// Scheduling lanes, most urgent first (see scheduler.ts)
+export type RequestPriority =
+  | 'interactive' // The user is waiting on it (browsing a tree)
+  | 'normal'      // Default (snapshot listing, connecting)
+  | 'background'; // Bulk work (index loading, downloads)
+
+export interface RequestOptions {
+  priority?: RequestPriority;
+  signal?: AbortSignal; // Cancels the request (queued, in flight or waiting to retry)
+}
+
+// A listed file; metadata fields are set when the backend reports them
+export interface FileInfo {
+  name: string;
+  size?: number;        // Bytes
+  lastModified?: Date;
+  etag?: string;        // Without surrounding quotes
+}
+
+export interface Backend {
+  /**
+   * Human-readable description of where the repository lives
+   */
+  location(): string;
+
+  /**
+   * Load a complete file from the repository
+   */
+  load(fileType: FileType, name: string, options?: RequestOptions): Promise<Uint8Array>;
+
+  /**
+   * Load `length` bytes starting at `offset` from a file
+   */
+  loadPartial(fileType: FileType, name: string, offset: number, length: number, options?: RequestOptions): Promise<Uint8Array>;
+
+  /**
+   * List all files of a type
+   */
+  list(fileType: FileType, options?: RequestOptions): Promise<FileInfo[]>;
+
+  /**
+   * Check if a file exists
+   */
+  exists(fileType: FileType, name: string, options?: RequestOptions): Promise<boolean>;
+
+  /**
+   * Get file size in bytes
+   */
+  getSize(fileType: FileType, name: string, options?: RequestOptions): Promise<number>;
+}
+
+/**
+ * Strip the quotes S3-style APIs put around ETags
+ */
+export function unquoteEtag(etag: string | null | undefined): string | undefined {
+  return etag ? etag.replace(/^"|"$/g, '') : undefined;
+}
+
+export function getSubdir(fileType: FileType): string {
+  switch (fileType) {
+    case 'data': return 'data';
+    case 'keys': return 'keys';
+    case 'locks': return 'locks';
+    case 'snapshots': return 'snapshots';
+    case 'index': return 'index';
+    case 'config': return '';
+  }
+}
+
+/**
+ * Path of a file relative to the repository root
+ */
+export function getFilePath(fileType: FileType, name: string): string {
+  if (fileType === 'config') {
+    // Config file is just 'config' at the root
+    return 'config';
+  }
+
+  const subdir = getSubdir(fileType);
+
+  // Pack files use subdirectory based on first 2 chars of the name
+  if (fileType === 'data') {
+    const prefix = name.substring(0, 2);
+    return `${subdir}/${prefix}/${name}`;
+  }
+
+  // Other files (keys, snapshots, index, locks) are in their subdir
+  return `${subdir}/${name}`;
+}
+
+/**
+ * Check if an error came from an aborted signal (and should not be reported)
+ */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+/**
+ * Explain a request that failed before any response arrived
+ *
+ * "Failed to fetch" means the request never completed - usually CORS or network level.
+ * The browser hides the actual response for security, but we can try to diagnose.
+ * `corsHelp` returns provider-specific CORS setup advice for the page origin.
+ */
+export async function diagnoseNetworkError(
+  url: string,
+  error: Error,
+  corsHelp: (origin: string) => string
+): Promise<string> {
+  if (!error.message.includes('Failed to fetch')) {
+    return '';
+  }
+
+  let diagnosis = '';
+  const isCrossOrigin = !url.startsWith(window.location.origin);
+
+  if (isCrossOrigin) {
+    // Try an unauthenticated request - the error response might have CORS headers
+    // even if the success response doesn't (some providers do this)
+    try {
+      const testResponse = await fetch(url, { method: 'GET' });
+      // If we get here, the server responded! CORS is partially working.
+      const text = await testResponse.text();
+      if (text.includes('<Error>')) {
+        // Parse XML error (S3 and Azure share this shape)
+        const codeMatch = text.match(/<Code>([^<]+)<\/Code>/);
+        const msgMatch = text.match(/<Message>([^<]+)<\/Message>/);
+        if (codeMatch || msgMatch) {
+          diagnosis = `\n\nServer response: ${codeMatch?.[1] || 'Error'} - ${msgMatch?.[1] || 'Unknown error'}`;
+        }
+      } else if (testResponse.status >= 400) {
+        diagnosis = `\n\nServer returned HTTP ${testResponse.status}: ${text.substring(0, 200)}`;
+      }
+    } catch {
+      // The unauthenticated request also failed with CORS
+      // This means CORS is completely blocking us
+      diagnosis = '\n\nCORS is blocking all requests to this server (including the error response).';
+    }
+  }
+
+  let hint = '\n\nThe browser blocked this request.' + diagnosis;
+  if (isCrossOrigin) {
+    hint += '\n\nThis is a CORS (Cross-Origin Resource Sharing) issue.';
+    hint += corsHelp(window.location.origin);
+  } else {
+    hint += '\n\nThe server may be down or unreachable.';
+  }
+  hint += '\n\n→ Check browser DevTools (F12) → Network tab for details';
+  return hint;
+}
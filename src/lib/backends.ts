@@ -0,0 +1,44 @@
+/**
+ * Backend Factory
+ *
+ * Maps a backend config to the storage driver that serves it.
+ */
+
+import type { BackendConfig, BackendType } from './types';
+import type { Backend, BackendOptions } from './backend';
+import { S3Backend } from './s3';
+import { RestBackend } from './rest';
+import { LocalBackend } from './local';
+import { StaticBackend } from './static';
+import { AzureBackend } from './azure';
+import { GcsBackend } from './gcs';
+import { RequestScheduler, ScheduledBackend } from './scheduler';
+
+export const BACKEND_LABELS: Record<BackendType, string> = {
+  s3: 'S3-compatible',
+  rest: 'REST server',
+  local: 'Local folder',
+  static: 'Static HTTP (manifests)',
+  azure: 'Azure Blob Storage',
+  gcs: 'Google Cloud Storage',
+};
+
+function createDriver(config: BackendConfig, options: BackendOptions): Backend {
+  switch (config.type) {
+    case 's3': return new S3Backend(config, options);
+    case 'rest': return new RestBackend(config, options);
+    case 'local': return new LocalBackend(config);
+    case 'static': return new StaticBackend(config, options);
+    case 'azure': return new AzureBackend(config, options);
+    case 'gcs': return new GcsBackend(config, options);
+  }
+}
+
+/**
+ * Create the storage driver for a backend config, with its requests
+ * going through a shared scheduler
+ */
+export function createBackend(config: BackendConfig, options: BackendOptions = {}): Backend {
+  const scheduler = new RequestScheduler(options.maxInFlight);
+  return new ScheduledBackend(createDriver(config, options), scheduler);
+}
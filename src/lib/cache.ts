@@ -0,0 +1,286 @@
+/**
+ * Persistent Repository Cache
+ *
+ * Keeps decrypted snapshots, index files and trees in IndexedDB so that
+ * reconnecting doesn't download and decrypt them again. Restic files are
+ * content-addressed and never change, so entries never go stale; they are
+ * only evicted (least recently used first) to stay under the size limit.
+ *
+ * Entries are keyed by repository ID (from the repository config), kind and
+ * file/blob ID. Cache failures are logged and otherwise ignored - the cache
+ * is an optimization, never a requirement.
+ */
+
+export type CacheKind = 'snapshots' | 'index' | 'tree';
+
+export const DEFAULT_CACHE_LIMIT = 256 * 1024 * 1024;
+
+const DB_NAME = 'restic-browser-cache';
+const DB_VERSION = 1;
+const ENTRIES = 'entries'; // Small records used for accounting and eviction
+const DATA = 'data';       // The cached bytes
+const LIMIT_STORAGE_KEY = 'restic-browser-cache-limit';
+
+// Evict down to this fraction of the limit, so eviction doesn't run on every write
+const EVICT_TARGET = 0.9;
+
+// Access times of cache hits are written in batches, this long after the first
+const ACCESS_FLUSH_DELAY = 2000;
+
+// Incremented by clearCache(), so open caches know to reset their usage
+let clearCount = 0;
+
+interface CacheEntry {
+  key: string;
+  size: number;
+  lastAccess: number;
+}
+
+/**
+ * Promise wrapper for an IndexedDB request
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const entries = db.createObjectStore(ENTRIES, { keyPath: 'key' });
+        entries.createIndex('lastAccess', 'lastAccess');
+        db.createObjectStore(DATA);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Get the configured cache size limit in bytes (0 disables the cache)
+ */
+export function getCacheLimit(): number {
+  const stored = localStorage.getItem(LIMIT_STORAGE_KEY);
+  const limit = stored === null ? NaN : Number(stored);
+  return isNaN(limit) ? DEFAULT_CACHE_LIMIT : limit;
+}
+
+export function setCacheLimit(bytes: number): void {
+  localStorage.setItem(LIMIT_STORAGE_KEY, String(bytes));
+}
+
+/**
+ * Total size of all cached entries, across repositories
+ */
+export async function getCacheUsage(): Promise<number> {
+  const db = await openDatabase();
+  const entries = await promisify(db.transaction(ENTRIES).objectStore(ENTRIES).getAll()) as CacheEntry[];
+  return entries.reduce((sum, entry) => sum + entry.size, 0);
+}
+
+/**
+ * Remove everything from the cache
+ */
+export async function clearCache(): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRIES, DATA], 'readwrite');
+  tx.objectStore(ENTRIES).clear();
+  tx.objectStore(DATA).clear();
+  await transactionDone(tx);
+  clearCount++;
+}
+
+export class RepositoryCache {
+  private db: IDBDatabase;
+  private repoId: string;
+  private limit: number;
+  private usage: number;
+  private usageClearCount = clearCount;
+  private evicting: Promise<void> | null = null;
+  // Keys read since access times were last written
+  private accessed = new Set<string>();
+  private accessFlush: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor(db: IDBDatabase, repoId: string, limit: number, usage: number) {
+    this.db = db;
+    this.repoId = repoId;
+    this.limit = limit;
+    this.usage = usage;
+  }
+
+  /**
+   * Open the cache for a repository; null if disabled or IndexedDB is unavailable
+   */
+  static async open(repoId: string): Promise<RepositoryCache | null> {
+    const limit = getCacheLimit();
+    if (limit <= 0 || typeof indexedDB === 'undefined') {
+      return null;
+    }
+    try {
+      const db = await openDatabase();
+      return new RepositoryCache(db, repoId, limit, await getCacheUsage());
+    } catch (err) {
+      console.warn('Repository cache unavailable:', err);
+      return null;
+    }
+  }
+
+  private key(kind: CacheKind, id: string): string {
+    return `${this.repoId}/${kind}/${id}`;
+  }
+
+  /**
+   * Get a cached file or blob, or null if it isn't cached
+   */
+  async get(kind: CacheKind, id: string): Promise<Uint8Array | null> {
+    const key = this.key(kind, id);
+    try {
+      const data = await promisify(this.db.transaction(DATA).objectStore(DATA).get(key)) as Uint8Array | undefined;
+      if (!data) {
+        return null;
+      }
+      this.recordAccess(key);
+      return data;
+    } catch (err) {
+      console.warn(`Cache read failed for ${key}:`, err);
+      return null;
+    }
+  }
+
+  /**
+   * Store a file or blob, evicting old entries if over the limit
+   */
+  async put(kind: CacheKind, id: string, data: Uint8Array): Promise<void> {
+    if (data.length > this.limit) {
+      return;
+    }
+    const key = this.key(kind, id);
+    try {
+      const tx = this.db.transaction([ENTRIES, DATA], 'readwrite');
+      const entries = tx.objectStore(ENTRIES);
+      // An overwrite only adds the difference in size
+      let previousSize = 0;
+      const previous = entries.get(key);
+      previous.onsuccess = () => {
+        previousSize = (previous.result as CacheEntry | undefined)?.size ?? 0;
+        const entry: CacheEntry = { key, size: data.length, lastAccess: Date.now() };
+        entries.put(entry);
+        tx.objectStore(DATA).put(data, key);
+      };
+      await transactionDone(tx);
+      this.syncClear();
+      this.usage += data.length - previousSize;
+    } catch (err) {
+      console.warn(`Cache write failed for ${key}:`, err);
+      return;
+    }
+
+    if (this.usage > this.limit && !this.evicting) {
+      this.evicting = this.evict().finally(() => {
+        this.evicting = null;
+      });
+    }
+  }
+
+  /**
+   * Start from zero if the cache was cleared since usage was counted
+   */
+  private syncClear(): void {
+    if (this.usageClearCount !== clearCount) {
+      this.usageClearCount = clearCount;
+      this.usage = 0;
+    }
+  }
+
+  /**
+   * Note a cache hit; access times are written later, in one transaction
+   */
+  private recordAccess(key: string): void {
+    this.accessed.add(key);
+    if (!this.accessFlush) {
+      this.accessFlush = setTimeout(() => void this.flushAccess(), ACCESS_FLUSH_DELAY);
+    }
+  }
+
+  /**
+   * Write the access times of recent cache hits (skipping evicted entries)
+   */
+  private async flushAccess(): Promise<void> {
+    if (this.accessFlush) {
+      clearTimeout(this.accessFlush);
+      this.accessFlush = null;
+    }
+    if (this.accessed.size === 0) return;
+    const keys = [...this.accessed];
+    this.accessed.clear();
+
+    try {
+      const tx = this.db.transaction(ENTRIES, 'readwrite');
+      const entries = tx.objectStore(ENTRIES);
+      const now = Date.now();
+      for (const key of keys) {
+        const request = entries.get(key);
+        request.onsuccess = () => {
+          const entry = request.result as CacheEntry | undefined;
+          if (entry) entries.put({ ...entry, lastAccess: now });
+        };
+      }
+      await transactionDone(tx);
+    } catch (err) {
+      console.warn('Cache access time update failed:', err);
+    }
+  }
+
+  /**
+   * Delete least recently used entries until usage is back under the target
+   */
+  private async evict(): Promise<void> {
+    const target = this.limit * EVICT_TARGET;
+    // Recently read entries must not look unused
+    await this.flushAccess();
+    try {
+      const tx = this.db.transaction([ENTRIES, DATA], 'readwrite');
+      const data = tx.objectStore(DATA);
+      const cursorRequest = tx.objectStore(ENTRIES).index('lastAccess').openCursor();
+
+      await new Promise<void>((resolve, reject) => {
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || this.usage <= target) {
+            resolve();
+            return;
+          }
+          const entry = cursor.value as CacheEntry;
+          cursor.delete();
+          data.delete(entry.key);
+          this.usage -= entry.size;
+          cursor.continue();
+        };
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+      });
+      await transactionDone(tx);
+    } catch (err) {
+      console.warn('Cache eviction failed:', err);
+    }
+  }
+}
@@ -5,22 +5,184 @@
  * URL configs can be optionally encrypted with a password
  */
 
-export interface RepoConfig {
+import type { BackendConfig, BackendType } from './types';
+import type { LocalDirectory } from './local';
+import type { S3Addressing } from './s3';
+
+interface BaseRepoConfig {
   name: string;
+  password: string; // Repository password
+}
+
+export interface S3RepoConfig extends BaseRepoConfig {
+  type?: 's3';  // Optional - configs saved before backend selection existed are S3
   endpoint: string;
   bucket: string;
   prefix?: string;
   region?: string;  // Optional - defaults to 'auto'
   accessKeyId: string;
   secretAccessKey: string;
-  password: string;
+  sessionToken?: string;   // Temporary credentials only
+  sessionExpiry?: string;  // ISO 8601 time the session token expires
+  anonymous?: boolean;     // Public bucket - no credentials, unsigned requests
+  usePathStyle?: boolean;  // Detected on first connect when not set
+}
+
+export interface RestRepoConfig extends BaseRepoConfig {
+  type: 'rest';
+  url: string;
+  username?: string;      // HTTP basic auth user
+  httpPassword?: string;  // HTTP basic auth password (not the repository password)
+}
+
+export interface LocalRepoConfig extends BaseRepoConfig {
+  type: 'local';
+  folderName?: string;  // Reminder only - the folder must be picked again each session
+}
+
+export interface StaticRepoConfig extends BaseRepoConfig {
+  type: 'static';
+  url: string;
+}
+
+export interface AzureRepoConfig extends BaseRepoConfig {
+  type: 'azure';
+  accountName: string;
+  container: string;
+  prefix?: string;
+  sasToken?: string;
+  accountKey?: string;
+  endpoint?: string;  // Optional - defaults to https://<account>.blob.core.windows.net
+}
+
+export interface GcsRepoConfig extends BaseRepoConfig {
+  type: 'gcs';
+  bucket: string;
+  prefix?: string;
+  accessToken?: string;
+  serviceAccountKey?: string;  // Service-account JSON key
 }
 
+// Saved connection, discriminated by backend `type`
+export type RepoConfig =
+  | S3RepoConfig
+  | RestRepoConfig
+  | LocalRepoConfig
+  | StaticRepoConfig
+  | AzureRepoConfig
+  | GcsRepoConfig;
+
 export interface ConfigState {
   configs: Record<string, RepoConfig>;
   active?: string;
 }
 
+/**
+ * Get the backend kind of a saved config
+ */
+export function getRepoBackendType(config: RepoConfig): BackendType {
+  return config.type ?? 's3';
+}
+
+/**
+ * Build the backend config for a saved connection
+ *
+ * Local folders can't be saved, so the folder picked in this session is passed separately.
+ */
+export function toBackendConfig(config: RepoConfig, localRoot?: LocalDirectory | null): BackendConfig {
+  switch (config.type) {
+    case 'local':
+      if (!localRoot) {
+        throw new Error('Choose the repository folder first');
+      }
+      return { type: 'local', root: localRoot };
+    case 'static':
+      return { type: 'static', url: config.url };
+    case 'azure':
+      return {
+        type: 'azure',
+        accountName: config.accountName,
+        container: config.container,
+        prefix: config.prefix,
+        sasToken: config.sasToken,
+        accountKey: config.accountKey,
+        endpoint: config.endpoint,
+      };
+    case 'gcs':
+      return {
+        type: 'gcs',
+        bucket: config.bucket,
+        prefix: config.prefix,
+        accessToken: config.accessToken,
+        serviceAccountKey: config.serviceAccountKey,
+      };
+    case 'rest':
+      return {
+        type: 'rest',
+        url: config.url,
+        username: config.username,
+        password: config.httpPassword,
+      };
+    case 's3':
+    case undefined:
+      return {
+        type: 's3',
+        endpoint: config.endpoint,
+        bucket: config.bucket,
+        prefix: config.prefix,
+        region: config.region,
+        accessKeyId: config.anonymous ? '' : config.accessKeyId,
+        secretAccessKey: config.anonymous ? '' : config.secretAccessKey,
+        sessionToken: config.anonymous ? undefined : config.sessionToken,
+        expiresAt: !config.anonymous && config.sessionExpiry ? Date.parse(config.sessionExpiry) : undefined,
+        anonymous: config.anonymous,
+        usePathStyle: config.usePathStyle ?? true,
+      };
+  }
+}
+
+/**
+ * Check that a config says where the repository is (enough to save or share it)
+ */
+export function hasRepoLocation(config: RepoConfig): boolean {
+  switch (config.type) {
+    case 'local':
+      return true; // The folder is picked when connecting
+    case 'rest':
+    case 'static':
+      return Boolean(config.url);
+    case 'azure':
+      return Boolean(config.accountName && config.container);
+    case 'gcs':
+      return Boolean(config.bucket);
+    case 's3':
+    case undefined:
+      return Boolean(config.endpoint && config.bucket);
+  }
+}
+
+/**
+ * Check that a config has everything needed to connect
+ */
+export function isRepoConfigComplete(config: RepoConfig): boolean {
+  if (!hasRepoLocation(config) || !config.password) {
+    return false;
+  }
+  switch (config.type) {
+    case 'local':
+    case 'static':
+    case 'rest':
+      return true; // Basic auth is optional
+    case 'azure':
+      return Boolean(config.sasToken || config.accountKey);
+    case 'gcs':
+      return Boolean(config.accessToken || config.serviceAccountKey);
+    case 's3':
+    case undefined:
+      return Boolean(config.anonymous || (config.accessKeyId && config.secretAccessKey));
+  }
+}
+
 // Encrypted config has a version marker and salt
 interface EncryptedPayload {
   v: 1; // version
@@ -315,6 +477,19 @@ export function saveConfigToStorage(config: RepoConfig): void {
   localStorage.setItem('restic-browser-configs', JSON.stringify(existing));
 }
 
+/**
+ * Record detected S3 addressing in the saved config of that name, if any
+ */
+export function saveDetectedS3Addressing(name: string, addressing: S3Addressing): void {
+  const existing = loadConfigsFromStorage();
+  const config = existing.configs[name];
+  if (!config || (config.type && config.type !== 's3')) {
+    return;
+  }
+  existing.configs[name] = { ...config, ...addressing };
+  localStorage.setItem('restic-browser-configs', JSON.stringify(existing));
+}
+
 /**
  * Load all configs from localStorage
  */
@@ -7,7 +7,7 @@
  * - Poly1305-AES for MAC
  */
 
-import { scrypt } from '@noble/hashes/scrypt.js';
+import { scryptAsync } from '@noble/hashes/scrypt.js';
 import type { MasterKey, KeyFile } from './types';
 
 // Constants
@@ -24,6 +24,48 @@ export interface CryptoKey {
   macKeyR: Uint8Array; // 16 bytes for Poly1305
 }
 
+/**
+ * Upper bounds for scrypt parameters read from key files. A key file is
+ * untrusted input, and a huge N or r would exhaust memory or hang the tab.
+ */
+export interface KdfLimits {
+  maxN: number;
+  maxR: number;
+  maxP: number;
+  maxMemory: number; // Bytes of scrypt working memory (128 * N * r)
+}
+
+// Generous for restic's calibrated parameters (typically N = 2^15..2^20, r = 8, p = 1)
+export const DEFAULT_KDF_LIMITS: KdfLimits = {
+  maxN: 2 ** 20,
+  maxR: 32,
+  maxP: 16,
+  maxMemory: 1024 * 1024 * 1024,
+};
+
+/**
+ * Reject scrypt parameters that are malformed or exceed the limits
+ */
+export function checkKdfParams(N: number, r: number, p: number, limits: KdfLimits = DEFAULT_KDF_LIMITS): void {
+  const params = `N=${N}, r=${r}, p=${p}`;
+  if (![N, r, p].every((n) => Number.isSafeInteger(n) && n > 0) || N < 2 || (N & (N - 1)) !== 0) {
+    throw new Error(`Invalid scrypt parameters in key file (${params})`);
+  }
+  if (N > limits.maxN || r > limits.maxR || p > limits.maxP || 128 * N * r > limits.maxMemory) {
+    throw new Error(
+      `Key file scrypt parameters (${params}) exceed the configured limits ` +
+      `(N ≤ ${limits.maxN}, r ≤ ${limits.maxR}, p ≤ ${limits.maxP}, ` +
+      `${Math.round(limits.maxMemory / 1024 / 1024)} MiB)`
+    );
+  }
+}
+
+export interface DeriveKeyOptions {
+  onProgress?: (progress: number) => void; // Fraction done, 0..1
+  signal?: AbortSignal;
+  maxMemory?: number;
+}
+
 /**
  * Derive encryption keys from password using scrypt
  */
@@ -32,15 +74,24 @@ export async function deriveKey(
   salt: Uint8Array,
   N: number,
   r: number,
-  p: number
+  p: number,
+  options: DeriveKeyOptions = {}
 ): Promise<CryptoKey> {
   const keyBytes = AES_KEY_SIZE + MAC_KEY_K_SIZE + MAC_KEY_R_SIZE; // 64 bytes
-  
-  const derived = scrypt(new TextEncoder().encode(password), salt, {
+  const { onProgress, signal, maxMemory = DEFAULT_KDF_LIMITS.maxMemory } = options;
+
+  // The async variant yields to the event loop, so progress can be shown and
+  // aborting takes effect (scrypt stops when the progress callback throws)
+  const derived = await scryptAsync(new TextEncoder().encode(password), salt, {
     N,
     r,
     p,
     dkLen: keyBytes,
+    maxmem: maxMemory + 128 * r * p + 1024,
+    onProgress: (progress) => {
+      signal?.throwIfAborted();
+      onProgress?.(progress);
+    },
   });
 
   return {
@@ -316,19 +367,25 @@ export async function decrypt(
   return aesCtr(key.encryptionKey, iv, encryptedData);
 }
 
+export type KeyDeriver = (password: string, salt: Uint8Array, N: number, r: number, p: number) => Promise<CryptoKey>;
+
 /**
- * Open and decrypt a key file with password
+ * Open and decrypt a key file with password. `derive` runs scrypt, on the
+ * main thread by default (see kdf.ts for the worker version).
  */
 export async function openKeyFile(
   keyFile: KeyFile,
-  password: string
+  password: string,
+  derive: KeyDeriver = deriveKey,
+  limits: KdfLimits = DEFAULT_KDF_LIMITS
 ): Promise<CryptoKey> {
   if (keyFile.kdf !== 'scrypt') {
     throw new Error(`Unsupported KDF: ${keyFile.kdf}`);
   }
+  checkKdfParams(keyFile.N, keyFile.r, keyFile.p, limits);
 
   const salt = base64ToBytes(keyFile.salt);
-  const userKey = await deriveKey(password, salt, keyFile.N, keyFile.r, keyFile.p);
+  const userKey = await derive(password, salt, keyFile.N, keyFile.r, keyFile.p);
 
   // Decrypt the master key
   const encryptedMasterKey = base64ToBytes(keyFile.data);
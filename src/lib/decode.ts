@@ -0,0 +1,82 @@
+/**
+ * Decode Pipeline
+ *
+ * Decryption, decompression and JSON parsing of repository files and blobs.
+ * These are CPU-heavy (Poly1305 is BigInt-based), so the repository runs them
+ * through the worker pool; this module is shared by the worker and the
+ * in-process fallback.
+ */
+
+import { type CryptoKey, decrypt } from './crypto';
+
+export type DecodeRequest =
+  // Unpacked file (snapshot, index): decrypt, then decompress for v2 repositories
+  | { op: 'unpacked'; key: CryptoKey; data: Uint8Array; version: number; parse: boolean }
+  // Blob read from a pack: decrypt, then decompress if the index says so
+  | { op: 'blob'; key: CryptoKey; data: Uint8Array; compressed: boolean; parse: boolean }
+  // Already decoded data (e.g. from the cache) that only needs parsing
+  | { op: 'parse'; data: Uint8Array };
+
+export interface DecodeResult {
+  data: Uint8Array;
+  value?: unknown; // Parsed JSON, if requested
+}
+
+/**
+ * Decompress unpacked data (for snapshots, indexes, etc.)
+ */
+export async function decompressUnpacked(data: Uint8Array, version: number): Promise<Uint8Array> {
+  if (version < 2) {
+    return data;
+  }
+
+  if (data.length === 0) {
+    return data;
+  }
+
+  // Check for raw JSON (legacy format)
+  if (data[0] === 0x5b /* '[' */ || data[0] === 0x7b /* '{' */) {
+    return data;
+  }
+
+  // Check version byte
+  if (data[0] !== 2) {
+    throw new Error(`Unsupported encoding version: ${data[0]}`);
+  }
+
+  // Import fzstd for decompression
+  const { decompress } = await import('fzstd');
+  return decompress(data.slice(1));
+}
+
+function parseJson(data: Uint8Array): unknown {
+  return JSON.parse(new TextDecoder().decode(data));
+}
+
+export async function runDecode(request: DecodeRequest): Promise<DecodeResult> {
+  let data: Uint8Array;
+  let parse = true;
+
+  switch (request.op) {
+    case 'unpacked': {
+      const plaintext = await decrypt(request.key, request.data);
+      data = await decompressUnpacked(plaintext, request.version);
+      parse = request.parse;
+      break;
+    }
+    case 'blob': {
+      data = await decrypt(request.key, request.data);
+      if (request.compressed) {
+        const { decompress } = await import('fzstd');
+        data = decompress(data);
+      }
+      parse = request.parse;
+      break;
+    }
+    case 'parse':
+      data = request.data;
+      break;
+  }
+
+  return parse ? { data, value: parseJson(data) } : { data };
+}
@@ -0,0 +1,214 @@
+/**
+ * Snapshot Diff
+ *
+ * Compares two snapshots like `restic diff`: both trees are walked in
+ * parallel, and directories whose subtree ID is the same on both sides are
+ * skipped without being loaded. Everything inside an added or removed
+ * directory is listed, so the totals cover it.
+ */
+
+import type { Node, SnapshotWithId, Tree } from './types';
+import { idFromHex } from './types';
+import type { Repository } from './repository';
+
+/**
+ * added/removed: only in the newer/older snapshot; modified: file content
+ * differs; metadata: same content, different mode, owner, times, ...
+ */
+export type DiffKind = 'added' | 'removed' | 'modified' | 'metadata';
+
+export interface DiffEntry {
+  kind: DiffKind;
+  path: string; // From the snapshot root, e.g. /home/user/notes.txt
+  node: Node; // As in the newer snapshot (the older one, for removed entries)
+  before?: Node; // As in the older snapshot, for modified and metadata changes
+}
+
+export interface DiffTotals {
+  files: number;
+  dirs: number;
+  others: number; // Symlinks, devices, ...
+  bytes: number; // Size of the files
+}
+
+export interface DiffStats {
+  added: DiffTotals;
+  removed: DiffTotals;
+  modified: { files: number; bytesBefore: number; bytesAfter: number };
+  metadata: number;
+}
+
+/**
+ * Whether two files have the same content blobs
+ */
+function sameContent(a: Node, b: Node): boolean {
+  const x = a.content ?? [];
+  const y = b.content ?? [];
+  return x.length === y.length && x.every((id, i) => id === y[i]);
+}
+
+/**
+ * Whether the metadata `restic diff --metadata` would report is unchanged.
+ * Access/change times, inode and link counts are left out: they change
+ * without anything worth reporting.
+ */
+function sameMetadata(a: Node, b: Node): boolean {
+  return a.mode === b.mode
+    && a.mtime === b.mtime
+    && a.uid === b.uid
+    && a.gid === b.gid
+    && a.user === b.user
+    && a.group === b.group
+    && a.linktarget === b.linktarget
+    && a.device === b.device
+    && JSON.stringify(a.extended_attributes ?? []) === JSON.stringify(b.extended_attributes ?? []);
+}
+
+/**
+ * An entry for `node` and, for a directory, everything below it
+ */
+async function* wholeTree(
+  repo: Repository,
+  kind: 'added' | 'removed',
+  path: string,
+  node: Node,
+  signal?: AbortSignal
+): AsyncGenerator<DiffEntry> {
+  yield { kind, path, node };
+  if (node.type === 'dir' && node.subtree) {
+    for await (const entry of repo.walkTree(idFromHex(node.subtree), signal, `${path}/`)) {
+      yield { kind, ...entry };
+    }
+  }
+}
+
+async function* diffTrees(
+  repo: Repository,
+  before: Tree,
+  after: Tree,
+  prefix: string,
+  signal?: AbortSignal
+): AsyncGenerator<DiffEntry> {
+  const oldNodes = new Map(before.nodes.map((node) => [node.name, node]));
+  const newNodes = new Map(after.nodes.map((node) => [node.name, node]));
+  const names = [...new Set([...oldNodes.keys(), ...newNodes.keys()])].sort();
+
+  for (const name of names) {
+    const a = oldNodes.get(name);
+    const b = newNodes.get(name);
+    const path = prefix + name;
+
+    if (!a || !b || a.type !== b.type) {
+      // A type change counts as removing one and adding the other
+      if (a) yield* wholeTree(repo, 'removed', path, a, signal);
+      if (b) yield* wholeTree(repo, 'added', path, b, signal);
+      continue;
+    }
+
+    if (b.type === 'file' && !sameContent(a, b)) {
+      yield { kind: 'modified', path, node: b, before: a };
+    } else if (!sameMetadata(a, b)) {
+      yield { kind: 'metadata', path, node: b, before: a };
+    }
+
+    if (b.type === 'dir' && a.subtree && b.subtree && a.subtree !== b.subtree) {
+      const [subBefore, subAfter] = await Promise.all([
+        repo.loadTree(idFromHex(a.subtree), { priority: 'normal', signal }),
+        repo.loadTree(idFromHex(b.subtree), { priority: 'normal', signal }),
+      ]);
+      yield* diffTrees(repo, subBefore, subAfter, `${path}/`, signal);
+    }
+  }
+}
+
+/**
+ * Changes from snapshot `from` to snapshot `to`, depth-first in name order
+ */
+export async function* diffSnapshots(
+  repo: Repository,
+  from: SnapshotWithId,
+  to: SnapshotWithId,
+  signal?: AbortSignal
+): AsyncGenerator<DiffEntry> {
+  if (from.tree === to.tree) return;
+  const [before, after] = await Promise.all([
+    repo.loadTree(idFromHex(from.tree), { priority: 'normal', signal }),
+    repo.loadTree(idFromHex(to.tree), { priority: 'normal', signal }),
+  ]);
+  yield* diffTrees(repo, before, after, '/', signal);
+}
+
+export interface DirectoryChanges {
+  changed: Map<string, DiffKind>; // Entries of the newer listing that differ, by name
+  removed: Node[]; // Entries only in the older listing
+}
+
+/**
+ * Compare two listings of the same directory, one level deep: a directory
+ * whose subtree differs counts as modified
+ */
+export function diffDirectory(before: Node[], after: Node[]): DirectoryChanges {
+  const oldNodes = new Map(before.map((node) => [node.name, node]));
+  const changed = new Map<string, DiffKind>();
+  for (const b of after) {
+    const a = oldNodes.get(b.name);
+    if (!a || a.type !== b.type) {
+      // A type change counts as removing one and adding the other
+      changed.set(b.name, 'added');
+      continue;
+    }
+    oldNodes.delete(b.name);
+    if (b.type === 'file' ? !sameContent(a, b) : b.type === 'dir' && a.subtree !== b.subtree) {
+      changed.set(b.name, 'modified');
+    } else if (!sameMetadata(a, b)) {
+      changed.set(b.name, 'metadata');
+    }
+  }
+  return { changed, removed: [...oldNodes.values()] };
+}
+
+function emptyTotals(): DiffTotals {
+  return { files: 0, dirs: 0, others: 0, bytes: 0 };
+}
+
+function count(totals: DiffTotals, node: Node): void {
+  if (node.type === 'file') {
+    totals.files++;
+    totals.bytes += node.size ?? 0;
+  } else if (node.type === 'dir') {
+    totals.dirs++;
+  } else {
+    totals.others++;
+  }
+}
+
+/**
+ * Totals over a list of diff entries
+ */
+export function summarizeDiff(entries: DiffEntry[]): DiffStats {
+  const stats: DiffStats = {
+    added: emptyTotals(),
+    removed: emptyTotals(),
+    modified: { files: 0, bytesBefore: 0, bytesAfter: 0 },
+    metadata: 0,
+  };
+  for (const entry of entries) {
+    switch (entry.kind) {
+      case 'added':
+        count(stats.added, entry.node);
+        break;
+      case 'removed':
+        count(stats.removed, entry.node);
+        break;
+      case 'modified':
+        stats.modified.files++;
+        stats.modified.bytesBefore += entry.before?.size ?? 0;
+        stats.modified.bytesAfter += entry.node.size ?? 0;
+        break;
+      case 'metadata':
+        stats.metadata++;
+        break;
+    }
+  }
+  return stats;
+}
@@ -0,0 +1,156 @@
+/**
+ * Saving Streams to Disk
+ *
+ * Writes a file stream to disk without holding it in memory, using the best
+ * mechanism the browser offers:
+ * 1. showSaveFilePicker (File System Access API, Chromium): pipe straight to the file
+ * 2. The service worker (demo/sw.js): the page feeds chunks to a streamed
+ *    `Content-Disposition: attachment` response, which the browser saves
+ *    like any other download
+ * 3. Otherwise, buffer the whole file in a Blob
+ */
+
+declare global {
+  interface Window {
+    // File System Access API (Chromium only, not yet in lib.dom)
+    showSaveFilePicker?: (options?: { suggestedName?: string; id?: string }) => Promise<FileSystemFileHandle>;
+  }
+}
+
+// How long to wait for the service worker to accept a download before falling back
+const SW_READY_TIMEOUT = 2000;
+
+// Messages exchanged with demo/sw.js over the download's MessageChannel
+type FromServiceWorker = { type: 'ready' } | { type: 'pull' } | { type: 'cancel' };
+type ToServiceWorker = { chunk: Uint8Array } | { done: true } | { error: string };
+
+function abortError(message: string): DOMException {
+  return new DOMException(message, 'AbortError');
+}
+
+/**
+ * Download a URL through a temporary link
+ */
+function clickDownloadLink(url: string, name: string): void {
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+}
+
+/**
+ * Hand the stream to the service worker. Resolves false (without touching
+ * `open`) if no service worker accepts the download.
+ */
+async function saveViaServiceWorker(
+  name: string,
+  size: number | undefined,
+  open: () => ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): Promise<boolean> {
+  const worker = navigator.serviceWorker?.controller;
+  if (!worker) return false;
+
+  const registration = await navigator.serviceWorker.ready;
+  const id = crypto.randomUUID();
+  const channel = new MessageChannel();
+  const port = channel.port1;
+  const send = (message: ToServiceWorker) => port.postMessage(message);
+
+  // Wait for the worker to register the download before navigating to it
+  const ready = await new Promise<boolean>((resolve) => {
+    const timer = setTimeout(() => resolve(false), SW_READY_TIMEOUT);
+    port.onmessage = (event: MessageEvent<FromServiceWorker>) => {
+      if (event.data.type === 'ready') {
+        clearTimeout(timer);
+        resolve(true);
+      }
+    };
+    worker.postMessage({ type: 'download', id, name, size }, [channel.port2]);
+  });
+  if (!ready) {
+    port.close();
+    return false;
+  }
+
+  const reader = open().getReader();
+  const frame = document.createElement('iframe');
+  frame.hidden = true;
+  frame.src = new URL(`__download/${id}`, registration.scope).href;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        void reader.cancel();
+        send({ error: 'Download cancelled' });
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      port.onmessage = async (event: MessageEvent<FromServiceWorker>) => {
+        if (event.data.type === 'cancel') {
+          // Cancelled from the browser's download UI
+          signal?.removeEventListener('abort', onAbort);
+          void reader.cancel();
+          reject(abortError('Download cancelled'));
+          return;
+        }
+        if (event.data.type !== 'pull') return;
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            signal?.removeEventListener('abort', onAbort);
+            send({ done: true });
+            resolve();
+          } else {
+            send({ chunk: value });
+          }
+        } catch (err) {
+          signal?.removeEventListener('abort', onAbort);
+          send({ error: (err as Error).message });
+          reject(err);
+        }
+      };
+
+      document.body.appendChild(frame);
+    });
+  } finally {
+    port.close();
+    // Removing the frame right away can cancel the download in some browsers
+    setTimeout(() => frame.remove(), 1000);
+  }
+  return true;
+}
+
+/**
+ * Save a stream as a file named `name`. Call this directly from a click
+ * handler: the save dialog needs the user gesture. `open` is only called once
+ * the destination is chosen, so nothing is loaded if the user cancels.
+ */
+export async function saveStream(
+  name: string,
+  size: number | undefined,
+  open: () => ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): Promise<void> {
+  if (window.showSaveFilePicker) {
+    // Throws an AbortError if the user dismisses the dialog
+    const handle = await window.showSaveFilePicker({ suggestedName: name });
+    const writable = await handle.createWritable();
+    // Aborting discards the partially written file
+    await open().pipeTo(writable, { signal });
+    return;
+  }
+
+  if (await saveViaServiceWorker(name, size, open, signal)) {
+    return;
+  }
+
+  const blob = await new Response(open()).blob();
+  signal?.throwIfAborted();
+  const url = URL.createObjectURL(blob);
+  clickDownloadLink(url, name);
+  URL.revokeObjectURL(url);
+}
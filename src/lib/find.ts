@@ -0,0 +1,162 @@
+/**
+ * Find Files
+ *
+ * Searches snapshot trees for nodes matching a glob or regular expression
+ * plus optional type, size and mtime filters, like `restic find`. Snapshots
+ * share most of their trees, so subtrees known to hold no match are skipped
+ * when they turn up again (in the same search).
+ */
+
+import type { Node, NodeType, SnapshotWithId } from './types';
+import { idFromHex } from './types';
+import type { Repository } from './repository';
+
+export interface FindQuery {
+  pattern: string;
+  // glob: '*' and '?' stay within a path component, '**' crosses them; a
+  // pattern without '/' matches the name, otherwise the end of the path (or
+  // the whole path, if it starts with '/'). regex: searched for in the path.
+  syntax: 'glob' | 'regex';
+  ignoreCase?: boolean;
+  type?: NodeType;
+  minSize?: number; // Bytes; size filters only match files
+  maxSize?: number;
+  newerThan?: number; // mtime, ms since the epoch
+  olderThan?: number;
+}
+
+export interface FindMatch {
+  snapshot: SnapshotWithId;
+  path: string; // From the snapshot root, e.g. /home/user/notes.txt
+  node: Node;
+}
+
+export interface FindOptions {
+  signal?: AbortSignal;
+  onSnapshot?: (snapshot: SnapshotWithId, index: number) => void; // Called as each snapshot's search starts
+}
+
+/**
+ * Translate a glob to a regular expression source
+ */
+function globSource(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (c === '?') {
+      source += '[^/]';
+    } else if (c === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end < 0) {
+        source += '\\[';
+        continue;
+      }
+      let set = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      if (set.startsWith('!') || set.startsWith('^')) set = `^${set.slice(1)}`;
+      source += `[${set}]`;
+      i = end;
+    } else {
+      source += c.replace(/[.+^${}()|\\\]/]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+/**
+ * Build a predicate for a query. Throws for an invalid regular expression.
+ */
+export function compileQuery(query: FindQuery): (path: string, node: Node) => boolean {
+  const flags = query.ignoreCase ? 'i' : '';
+  let matchName: (path: string, node: Node) => boolean;
+
+  if (query.syntax === 'regex') {
+    const regex = new RegExp(query.pattern, flags);
+    matchName = (path) => regex.test(path);
+  } else if (!query.pattern.includes('/')) {
+    const regex = new RegExp(`^${globSource(query.pattern)}$`, flags);
+    matchName = (_path, node) => regex.test(node.name);
+  } else {
+    const anchored = query.pattern.startsWith('/');
+    const pattern = query.pattern.replace(/^\/+|\/+$/g, '');
+    const regex = new RegExp(`${anchored ? '^/' : '(^|/)'}${globSource(pattern)}$`, flags);
+    matchName = (path) => regex.test(path);
+  }
+
+  const sizeFilter = query.minSize !== undefined || query.maxSize !== undefined;
+  return (path, node) => {
+    if (query.type && node.type !== query.type) return false;
+    if (sizeFilter) {
+      if (node.type !== 'file') return false;
+      const size = node.size ?? 0;
+      if (query.minSize !== undefined && size < query.minSize) return false;
+      if (query.maxSize !== undefined && size > query.maxSize) return false;
+    }
+    if (query.newerThan !== undefined || query.olderThan !== undefined) {
+      const mtime = node.mtime ? Date.parse(node.mtime) : NaN;
+      if (isNaN(mtime)) return false;
+      if (query.newerThan !== undefined && mtime < query.newerThan) return false;
+      if (query.olderThan !== undefined && mtime > query.olderThan) return false;
+    }
+    return matchName(path, node);
+  };
+}
+
+/**
+ * Matches in the given snapshots, in order, streamed as they are found
+ */
+export async function* findInSnapshots(
+  repo: Repository,
+  snapshots: SnapshotWithId[],
+  query: FindQuery,
+  options: FindOptions = {}
+): AsyncGenerator<FindMatch> {
+  const { signal } = options;
+  const matches = compileQuery(query);
+  // Trees with no match anywhere below them, by ID - and by location too,
+  // when the pattern looks at the path
+  const byPath = query.syntax === 'regex' || query.pattern.includes('/');
+  const empty = new Set<string>();
+  const key = (treeId: string, prefix: string) => byPath ? `${prefix}\0${treeId}` : treeId;
+
+  /**
+   * Search a tree; the returned flag tells whether anything matched
+   */
+  async function* searchTree(snapshot: SnapshotWithId, treeId: string, prefix: string): AsyncGenerator<FindMatch, boolean> {
+    signal?.throwIfAborted(); // Cached trees load without checking it
+    const tree = await repo.loadTree(idFromHex(treeId), { priority: 'normal', signal });
+    let found = false;
+    for (const node of tree.nodes) {
+      const path = prefix + node.name;
+      if (matches(path, node)) {
+        found = true;
+        yield { snapshot, path, node };
+      }
+      if (node.type !== 'dir' || !node.subtree) continue;
+      const subtree = key(node.subtree, `${path}/`);
+      if (empty.has(subtree)) continue;
+      if (yield* searchTree(snapshot, node.subtree, `${path}/`)) {
+        found = true;
+      } else {
+        empty.add(subtree);
+      }
+    }
+    return found;
+  }
+
+  for (const [index, snapshot] of snapshots.entries()) {
+    signal?.throwIfAborted();
+    options.onSnapshot?.(snapshot, index);
+    const root = key(snapshot.tree, '/');
+    if (empty.has(root)) continue;
+    if (!(yield* searchTree(snapshot, snapshot.tree, '/'))) {
+      empty.add(root);
+    }
+  }
+}
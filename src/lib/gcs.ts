@@ -0,0 +1,314 @@
+/**
+ * Google Cloud Storage Backend for Restic
+ *
+ * Reads `gs:` repositories through the GCS JSON API, authenticated with a
+ * pasted OAuth access token or a service-account key signed into a JWT here.
+ */
+
+import type { GcsConfig } from './types';
+import {
+  type Backend,
+  type BackendOptions,
+  type FileInfo,
+  type FileType,
+  type RequestOptions,
+  getSubdir,
+  getFilePath,
+  diagnoseNetworkError,
+  isAbortError,
+} from './backend';
+import { HttpClient } from './http';
+import { base64ToBytes, bytesToBase64 } from './crypto';
+
+const GCS_API = 'https://storage.googleapis.com/storage/v1';
+const READ_ONLY_SCOPE = 'https://www.googleapis.com/auth/devstorage.read_only';
+const DEFAULT_TOKEN_URI = 'https://oauth2.googleapis.com/token';
+
+// Refresh service-account tokens this long before they expire
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+interface ServiceAccountKey {
+  client_email: string;
+  private_key: string; // PKCS#8 PEM
+  token_uri?: string;
+}
+
+interface AccessToken {
+  token: string;
+  expiresAt: number; // ms since epoch, Infinity if unknown
+}
+
+interface GcsObjectList {
+  items?: { name: string; size?: string; updated?: string; etag?: string }[];
+  nextPageToken?: string;
+}
+
+/**
+ * CORS setup advice for GCS buckets
+ */
+function gcsCorsHelp(origin: string): string {
+  let help = '\n\nSet a CORS policy on the bucket, e.g. save this as cors.json:';
+  help += '\n\n[{';
+  help += '\n  "origin": ["' + origin + '"],';
+  help += '\n  "method": ["GET", "HEAD"],';
+  help += '\n  "responseHeader": ["authorization", "content-type", "content-length", "content-range", "range"],';
+  help += '\n  "maxAgeSeconds": 3600';
+  help += '\n}]';
+  help += '\n\nand apply it with: gcloud storage buckets update gs://<bucket> --cors-file=cors.json';
+  return help;
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function parseServiceAccountKey(json: string): ServiceAccountKey {
+  let key: ServiceAccountKey;
+  try {
+    key = JSON.parse(json);
+  } catch {
+    throw new Error('Service account key is not valid JSON');
+  }
+  if (!key.client_email || !key.private_key) {
+    throw new Error('Service account key must contain client_email and private_key');
+  }
+  return key;
+}
+
+/**
+ * Exchange a service-account key for an access token (JWT bearer grant)
+ * See https://developers.google.com/identity/protocols/oauth2/service-account
+ */
+async function fetchServiceAccountToken(key: ServiceAccountKey): Promise<AccessToken> {
+  const tokenUri = key.token_uri || DEFAULT_TOKEN_URI;
+  const now = Math.floor(Date.now() / 1000);
+
+  const encoder = new TextEncoder();
+  const header = base64Url(encoder.encode(JSON.stringify({ alg: 'RS256', typ: 'JWT' })));
+  const claims = base64Url(encoder.encode(JSON.stringify({
+    iss: key.client_email,
+    scope: READ_ONLY_SCOPE,
+    aud: tokenUri,
+    iat: now,
+    exp: now + 3600,
+  })));
+
+  const pem = key.private_key
+    .replace(/-----(BEGIN|END) PRIVATE KEY-----/g, '')
+    .replace(/\s+/g, '');
+  const signingKey = await crypto.subtle.importKey(
+    'pkcs8',
+    new Uint8Array(base64ToBytes(pem)),
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', signingKey, encoder.encode(`${header}.${claims}`));
+  const assertion = `${header}.${claims}.${base64Url(new Uint8Array(signature))}`;
+
+  let response: Response;
+  try {
+    response = await fetch(tokenUri, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion,
+      }),
+    });
+  } catch (err) {
+    throw new Error(`Network error requesting access token\nURL: ${tokenUri}\nError: ${(err as Error).message}`);
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || !body.access_token) {
+    throw new Error(`Failed to get access token for ${key.client_email}\nHTTP ${response.status}\nResponse: ${body.error_description || body.error || 'no token returned'}`);
+  }
+
+  return {
+    token: body.access_token,
+    expiresAt: Date.now() + (body.expires_in ?? 3600) * 1000,
+  };
+}
+
+export class GcsBackend implements Backend {
+  private bucket: string;
+  private prefix: string;
+  private serviceAccount: ServiceAccountKey | null;
+  private accessToken: AccessToken | null;
+  private pendingToken: Promise<AccessToken> | null = null;
+  private http: HttpClient;
+
+  constructor(config: GcsConfig, options: BackendOptions = {}) {
+    this.http = new HttpClient(undefined, options);
+    this.bucket = config.bucket;
+    this.prefix = (config.prefix || '').replace(/^\/+|\/+$/g, '');
+    this.serviceAccount = config.serviceAccountKey ? parseServiceAccountKey(config.serviceAccountKey) : null;
+    this.accessToken = !this.serviceAccount && config.accessToken
+      ? { token: config.accessToken.trim(), expiresAt: Infinity }
+      : null;
+  }
+
+  private objectName(path: string): string {
+    return this.prefix ? `${this.prefix}/${path}` : path;
+  }
+
+  private getObjectUrl(path: string, media: boolean): string {
+    const url = `${GCS_API}/b/${encodeURIComponent(this.bucket)}/o/${encodeURIComponent(this.objectName(path))}`;
+    return media ? `${url}?alt=media` : url;
+  }
+
+  /**
+   * Get a valid access token, refreshing service-account tokens as needed
+   */
+  private async getToken(): Promise<string | null> {
+    if (this.accessToken && this.accessToken.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return this.accessToken.token;
+    }
+    if (!this.serviceAccount) {
+      return this.accessToken?.token ?? null;
+    }
+
+    // Share one token request between concurrent callers
+    if (!this.pendingToken) {
+      this.pendingToken = fetchServiceAccountToken(this.serviceAccount).finally(() => {
+        this.pendingToken = null;
+      });
+    }
+    this.accessToken = await this.pendingToken;
+    return this.accessToken.token;
+  }
+
+  /**
+   * Send an authorized request, turning failures into descriptive errors
+   */
+  private async request(
+    url: string,
+    description: string,
+    signal?: AbortSignal,
+    headers: Record<string, string> = {}
+  ): Promise<Response> {
+    const token = await this.getToken();
+    if (token) {
+      headers = { ...headers, Authorization: `Bearer ${token}` };
+    }
+
+    let response: Response;
+    try {
+      response = await this.http.send(url, { headers, signal });
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      const error = err as Error;
+      const hint = await diagnoseNetworkError(url, error, gcsCorsHelp);
+      throw new Error(`Network error ${description}\nURL: ${url}\nError: ${error.message}${hint}`);
+    }
+
+    if (!response.ok) {
+      let message = '';
+      try {
+        const body = await response.json();
+        message = body.error?.message || '';
+      } catch {
+        // ignore
+      }
+      const authHint = response.status === 401 && !this.serviceAccount
+        ? '\n\nThe access token is missing or expired. Paste a fresh one (e.g. from `gcloud auth print-access-token`).'
+        : '';
+      throw new Error(`Failed ${description}\nHTTP ${response.status} ${response.statusText}\nURL: ${url}${message ? `\nResponse: ${message}` : ''}${authHint}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Human-readable description of the bucket and prefix
+   */
+  location(): string {
+    return this.prefix ? `gs://${this.bucket}/${this.prefix}` : `gs://${this.bucket}`;
+  }
+
+  /**
+   * Load a file from the repository
+   */
+  async load(fileType: FileType, name: string, options: RequestOptions = {}): Promise<Uint8Array> {
+    const url = this.getObjectUrl(getFilePath(fileType, name), true);
+    const response = await this.request(url, `loading ${fileType}/${name}`, options.signal);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  /**
+   * Load partial content from a file
+   */
+  async loadPartial(
+    fileType: FileType,
+    name: string,
+    offset: number,
+    length: number,
+    options: RequestOptions = {}
+  ): Promise<Uint8Array> {
+    const url = this.getObjectUrl(getFilePath(fileType, name), true);
+    const end = offset + length - 1;
+    const response = await this.request(url, `loading ${fileType}/${name} (range ${offset}-${end})`, options.signal, {
+      Range: `bytes=${offset}-${end}`,
+    });
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  /**
+   * List files of a specific type (objects.list, following nextPageToken)
+   */
+  async list(fileType: FileType, options: RequestOptions = {}): Promise<FileInfo[]> {
+    const prefix = this.objectName(`${getSubdir(fileType)}/`);
+    const files: FileInfo[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        prefix,
+        fields: 'items(name,size,updated,etag),nextPageToken',
+        ...(pageToken ? { pageToken } : {}),
+      });
+      const url = `${GCS_API}/b/${encodeURIComponent(this.bucket)}/o?${params}`;
+      const response = await this.request(url, `listing ${fileType}`, options.signal);
+      const page: GcsObjectList = await response.json();
+
+      for (const item of page.items || []) {
+        const filename = item.name.split('/').pop();
+        if (filename) {
+          files.push({
+            name: filename,
+            size: item.size ? parseInt(item.size, 10) : undefined,
+            lastModified: item.updated ? new Date(item.updated) : undefined,
+            etag: item.etag,
+          });
+        }
+      }
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return files;
+  }
+
+  /**
+   * Check if a file exists
+   */
+  async exists(fileType: FileType, name: string, options: RequestOptions = {}): Promise<boolean> {
+    try {
+      await this.getSize(fileType, name, options);
+      return true;
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      return false;
+    }
+  }
+
+  /**
+   * Get file size from the object metadata
+   */
+  async getSize(fileType: FileType, name: string, options: RequestOptions = {}): Promise<number> {
+    const url = this.getObjectUrl(getFilePath(fileType, name), false);
+    const response = await this.request(url, `getting size of ${fileType}/${name}`, options.signal);
+    const metadata: { size?: string } = await response.json();
+    return parseInt(metadata.size || '0', 10);
+  }
+}
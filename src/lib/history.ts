@@ -0,0 +1,96 @@
+/**
+ * File History
+ *
+ * Finds a path in every snapshot and groups what's there into distinct
+ * versions by content (a file's blob list, a directory's subtree, a
+ * symlink's target). Snapshots usually share the trees along the path, so
+ * each tree is looked up once.
+ */
+
+import type { Node, SnapshotWithId } from './types';
+import { idFromHex } from './types';
+import type { Repository } from './repository';
+
+export interface FileVersion {
+  key: string; // Content identity
+  node: Node; // As in the first snapshot with this version
+  snapshots: SnapshotWithId[]; // Snapshots holding it, oldest first
+}
+
+export interface HistoryOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void; // Snapshots looked at
+}
+
+/**
+ * What identifies a node's content
+ */
+function contentKey(node: Node): string {
+  switch (node.type) {
+    case 'file':
+      return `file:${(node.content ?? []).join(',')}`;
+    case 'dir':
+      return `dir:${node.subtree ?? ''}`;
+    case 'symlink':
+      return `symlink:${node.linktarget ?? ''}`;
+    default:
+      return `${node.type}:${node.device ?? ''}`;
+  }
+}
+
+/**
+ * Versions of `path` across `snapshots`, newest first. Snapshots without the
+ * path are left out.
+ */
+export async function fileHistory(
+  repo: Repository,
+  snapshots: SnapshotWithId[],
+  path: string,
+  options: HistoryOptions = {}
+): Promise<FileVersion[]> {
+  const { signal, onProgress } = options;
+  const parts = path.split('/').filter((part) => part && part !== '.');
+  if (parts.length === 0) {
+    throw new Error('The snapshot root has no history');
+  }
+
+  // Node found under a tree at a given depth of the path, by tree ID
+  const resolved = new Map<string, Promise<Node | null>>();
+  const resolve = (treeId: string, depth: number): Promise<Node | null> => {
+    const key = `${depth}:${treeId}`;
+    let result = resolved.get(key);
+    if (!result) {
+      result = (async () => {
+        const tree = await repo.loadTree(idFromHex(treeId), { priority: 'normal', signal });
+        const node = tree.nodes.find((n) => n.name === parts[depth]);
+        if (!node) return null;
+        if (depth === parts.length - 1) return node;
+        return node.type === 'dir' && node.subtree ? resolve(node.subtree, depth + 1) : null;
+      })();
+      resolved.set(key, result);
+    }
+    return result;
+  };
+
+  const ordered = [...snapshots].sort((a, b) => Date.parse(a.time) - Date.parse(b.time));
+  const versions = new Map<string, FileVersion>();
+  for (const [index, snapshot] of ordered.entries()) {
+    signal?.throwIfAborted();
+    const node = await resolve(snapshot.tree, 0);
+    onProgress?.(index + 1, ordered.length);
+    if (!node) continue;
+
+    const key = contentKey(node);
+    const version = versions.get(key);
+    if (version) {
+      version.snapshots.push(snapshot);
+    } else {
+      versions.set(key, { key, node, snapshots: [snapshot] });
+    }
+  }
+
+  // Newest first, by when each version was last seen
+  return [...versions.values()].reverse().sort((a, b) =>
+    Date.parse(b.snapshots[b.snapshots.length - 1].time) - Date.parse(a.snapshots[a.snapshots.length - 1].time)
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * HTTP Request Layer
+ *
+ * Shared by the HTTP-based backends. Retries transient failures (5xx, 429,
+ * dropped connections) with jittered exponential backoff, honours Retry-After,
+ * and keeps per-backend request statistics.
+ */
+
+export interface RetryOptions {
+  maxRetries: number;   // Attempts after the first one
+  baseDelayMs: number;  // Backoff before the first retry (doubles each time)
+  maxDelayMs: number;   // Upper bound for any single wait, including Retry-After
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 4,
+  baseDelayMs: 300,
+  maxDelayMs: 20000,
+};
+
+export interface RequestStats {
+  requests: number;  // Attempts sent, including retries
+  retries: number;
+  failures: number;  // Requests that failed after all retries (or fatally)
+}
+
+export interface RetryEvent {
+  url: string;
+  attempt: number;  // 1 for the first retry
+  delayMs: number;
+  reason: string;   // e.g. 'HTTP 503' or the network error message
+}
+
+export interface HttpClientOptions {
+  retry?: Partial<RetryOptions>;
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/**
+ * Sends one attempt of a request (plain fetch, or a signing client)
+ */
+export type Sender = (url: string, init: RequestInit) => Promise<Response>;
+
+// 408 Request Timeout, 429 Too Many Requests, and server-side errors
+// (S3 uses 500 InternalError and 503 SlowDown for throttling)
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Check if an HTTP status is worth retrying (403, 404 etc. are not)
+ */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUS.has(status);
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class HttpClient {
+  readonly stats: RequestStats = { requests: 0, retries: 0, failures: 0 };
+  private sender: Sender;
+  private retry: RetryOptions;
+  private onRetry?: (event: RetryEvent) => void;
+  // Set once any response arrives; until then network errors are treated as fatal
+  private reachable = false;
+
+  constructor(sender: Sender = (url, init) => fetch(url, init), options: HttpClientOptions = {}) {
+    this.sender = sender;
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.onRetry = options.onRetry;
+  }
+
+  /**
+   * Full-jitter exponential backoff
+   */
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    return Math.random() * ceiling;
+  }
+
+  /**
+   * Send a request, retrying transient failures
+   *
+   * Successful responses are buffered before returning, so a connection that
+   * drops mid-body is retried too. Fatal errors (4xx other than 408/429, or a
+   * network error before the server was ever reached - almost always CORS or a
+   * wrong endpoint) are returned or thrown immediately for the backend to report.
+   * An aborted `init.signal` throws its AbortError without further retries.
+   */
+  async send(url: string, init: RequestInit = {}): Promise<Response> {
+    const signal = init.signal;
+    for (let attempt = 0; ; attempt++) {
+      signal?.throwIfAborted();
+      const canRetry = attempt < this.retry.maxRetries;
+      this.stats.requests++;
+
+      let response: Response;
+      try {
+        response = await this.sender(url, init);
+      } catch (err) {
+        if (signal?.aborted) {
+          throw signal.reason;
+        }
+        if (!canRetry || !this.reachable) {
+          this.stats.failures++;
+          throw err;
+        }
+        await this.wait(url, attempt, this.backoff(attempt), (err as Error).message, signal);
+        continue;
+      }
+      this.reachable = true;
+
+      if (isRetryableStatus(response.status)) {
+        if (!canRetry) {
+          this.stats.failures++;
+          return response;
+        }
+        const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+        const delay = Math.min(this.retry.maxDelayMs, retryAfter ?? this.backoff(attempt));
+        await response.body?.cancel().catch(() => {});
+        await this.wait(url, attempt, delay, `HTTP ${response.status}`, signal);
+        continue;
+      }
+
+      // HEAD and empty responses have no body worth buffering
+      if (!response.ok || init.method === 'HEAD' || response.status === 204) {
+        if (!response.ok) this.stats.failures++;
+        return response;
+      }
+
+      let body: ArrayBuffer;
+      try {
+        body = await response.arrayBuffer();
+      } catch (err) {
+        if (signal?.aborted) {
+          throw signal.reason;
+        }
+        if (!canRetry) {
+          this.stats.failures++;
+          throw err;
+        }
+        await this.wait(url, attempt, this.backoff(attempt), (err as Error).message, signal);
+        continue;
+      }
+
+      return new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    }
+  }
+
+  private async wait(url: string, attempt: number, delayMs: number, reason: string, signal?: AbortSignal | null): Promise<void> {
+    this.stats.retries++;
+    console.warn(`Retrying ${url} in ${Math.round(delayMs)}ms (${reason})`);
+    this.onRetry?.({ url, attempt: attempt + 1, delayMs, reason });
+    await sleep(delayMs, signal);
+  }
+}
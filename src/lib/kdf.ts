@@ -0,0 +1,130 @@
+/**
+ * Key Derivation in a Worker
+ *
+ * scrypt takes seconds per key file, so it runs on a dedicated worker (the
+ * same script as the decode pool) that reports progress and is terminated to
+ * cancel. Without workers it falls back to the async scrypt on the main
+ * thread, which still yields often enough to show progress.
+ */
+
+import { type CryptoKey, type KdfLimits, type KeyDeriver, DEFAULT_KDF_LIMITS, deriveKey } from './crypto';
+import { type WorkerMessage, workerUrl } from './workerPool';
+
+const LIMITS_STORAGE_KEY = 'restic-browser-kdf-limits';
+
+// Sent to src/worker.ts
+export interface KdfRequest {
+  password: string;
+  salt: Uint8Array;
+  N: number;
+  r: number;
+  p: number;
+  maxMemory: number;
+}
+
+export interface KdfOptions {
+  onProgress?: (progress: number) => void; // Fraction done, 0..1
+  signal?: AbortSignal;
+  limits?: KdfLimits;
+}
+
+/**
+ * Get the scrypt parameter limits, with any overrides saved in localStorage
+ * (e.g. `{"maxMemory": 4294967296}` for key files made with very large N)
+ */
+export function getKdfLimits(): KdfLimits {
+  try {
+    const stored = localStorage.getItem(LIMITS_STORAGE_KEY);
+    return { ...DEFAULT_KDF_LIMITS, ...(stored ? JSON.parse(stored) : {}) };
+  } catch {
+    return DEFAULT_KDF_LIMITS;
+  }
+}
+
+export function setKdfLimits(limits: Partial<KdfLimits> | null): void {
+  if (limits) {
+    localStorage.setItem(LIMITS_STORAGE_KEY, JSON.stringify(limits));
+  } else {
+    localStorage.removeItem(LIMITS_STORAGE_KEY);
+  }
+}
+
+/**
+ * Run scrypt on a fresh worker. Resolves null if the worker couldn't start,
+ * so the caller can fall back to the main thread.
+ */
+function deriveKeyOnWorker(url: string, request: KdfRequest, options: KdfOptions): Promise<CryptoKey | null> {
+  const { onProgress, signal } = options;
+
+  return new Promise<CryptoKey | null>((resolve, reject) => {
+    const worker = new Worker(url, { type: 'module' });
+    let started = false;
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    // scrypt can't be interrupted from outside, so cancelling ends the worker
+    const onAbort = () => {
+      finish();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data;
+      if ('ready' in message) {
+        started = true;
+      } else if ('progress' in message) {
+        onProgress?.(message.progress);
+      } else if ('key' in message) {
+        finish();
+        resolve(message.key);
+      } else if ('error' in message) {
+        finish();
+        reject(new Error(message.error));
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      finish();
+      if (started) {
+        reject(new Error(`Key derivation failed: ${event.message}`));
+      } else {
+        resolve(null);
+      }
+    };
+
+    worker.postMessage({ id: 0, kdf: request });
+  });
+}
+
+/**
+ * Key deriver for `openKeyFile` that runs scrypt off the main thread
+ */
+export function createKeyDeriver(options: KdfOptions = {}): KeyDeriver {
+  const maxMemory = (options.limits ?? DEFAULT_KDF_LIMITS).maxMemory;
+
+  return async (password, salt, N, r, p) => {
+    options.signal?.throwIfAborted();
+    const url = workerUrl();
+    if (url) {
+      const key = await deriveKeyOnWorker(url, { password, salt, N, r, p, maxMemory }, options);
+      if (key) return key;
+      console.warn('Key derivation worker unavailable, deriving on the main thread');
+    }
+    // Report whole percents only; scrypt calls back far more often than that
+    let reported = -1;
+    return deriveKey(password, salt, N, r, p, {
+      signal: options.signal,
+      maxMemory,
+      onProgress: (progress) => {
+        const percent = Math.floor(progress * 100);
+        if (percent !== reported) {
+          reported = percent;
+          options.onProgress?.(progress);
+        }
+      },
+    });
+  };
+}
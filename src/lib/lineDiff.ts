@@ -0,0 +1,174 @@
+/**
+ * Line Diff
+ *
+ * Myers' O(ND) diff over lines, used to compare text versions of a file,
+ * and its layout as side-by-side rows.
+ */
+
+export interface LineOp {
+  type: 'same' | 'removed' | 'added';
+  line: string;
+}
+
+export interface SideBySideRow {
+  left?: { number: number; text: string };
+  right?: { number: number; text: string };
+  type: 'same' | 'changed' | 'removed' | 'added' | 'skipped';
+  skipped?: number; // Unchanged lines folded into a 'skipped' row
+}
+
+/**
+ * Decode file contents as UTF-8 text; null when they look binary
+ */
+export function decodeText(data: Uint8Array): string | null {
+  if (data.includes(0)) return null;
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split text into lines (without their line endings)
+ */
+export function splitLines(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Shortest edit script from `a` to `b`; null when more than `maxEdits` lines
+ * differ (the search grows with the square of the difference)
+ */
+export function diffLines(a: string[], b: string[], maxEdits = 2000): LineOp[] | null {
+  // Common prefix and suffix don't need the search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middle = myers(a.slice(start, endA), b.slice(start, endB), maxEdits);
+  if (!middle) return null;
+  return [
+    ...a.slice(0, start).map((line) => ({ type: 'same' as const, line })),
+    ...middle,
+    ...a.slice(endA).map((line) => ({ type: 'same' as const, line })),
+  ];
+}
+
+function myers(a: string[], b: string[], maxEdits: number): LineOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // v (furthest x per diagonal k) before each step d, for k in -(d+1)..d+1
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if (d > maxEdits) return null;
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+  return [];
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): LineOp[] {
+  const ops: LineOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'same', line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ type: 'added', line: b[--y] });
+      } else {
+        ops.push({ type: 'removed', line: a[--x] });
+      }
+    }
+  }
+  return ops.reverse();
+}
+
+/**
+ * Lay out an edit script in two columns, pairing removed and added lines
+ * and folding unchanged runs to `context` lines around each change
+ */
+export function sideBySide(ops: LineOp[], context = 3): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let left = 0;
+  let right = 0;
+
+  for (let i = 0; i < ops.length;) {
+    if (ops[i].type === 'same') {
+      left++;
+      right++;
+      rows.push({ type: 'same', left: { number: left, text: ops[i].line }, right: { number: right, text: ops[i].line } });
+      i++;
+      continue;
+    }
+    // A run of removals and additions, shown next to each other
+    const removed: string[] = [];
+    const added: string[] = [];
+    for (; i < ops.length && ops[i].type !== 'same'; i++) {
+      (ops[i].type === 'removed' ? removed : added).push(ops[i].line);
+    }
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      const row: SideBySideRow = {
+        type: j < removed.length && j < added.length ? 'changed' : j < removed.length ? 'removed' : 'added',
+      };
+      if (j < removed.length) row.left = { number: ++left, text: removed[j] };
+      if (j < added.length) row.right = { number: ++right, text: added[j] };
+      rows.push(row);
+    }
+  }
+
+  // Fold unchanged lines further than `context` from a change
+  const near = rows.map(() => false);
+  rows.forEach((row, index) => {
+    if (row.type === 'same') return;
+    for (let j = Math.max(0, index - context); j <= Math.min(rows.length - 1, index + context); j++) near[j] = true;
+  });
+  const folded: SideBySideRow[] = [];
+  for (const [index, row] of rows.entries()) {
+    if (row.type !== 'same' || near[index]) {
+      folded.push(row);
+      continue;
+    }
+    const last = folded[folded.length - 1];
+    if (last?.type === 'skipped') {
+      last.skipped!++;
+    } else {
+      folded.push({ type: 'skipped', skipped: 1 });
+    }
+  }
+  return folded;
+}
@@ -0,0 +1,288 @@
+/**
+ * Local Folder Backend for Restic
+ *
+ * Reads a repository folder picked with the File System Access API
+ * (showDirectoryPicker) or dropped onto the page (webkitGetAsEntry).
+ */
+
+import type { LocalConfig } from './types';
+import { type Backend, type FileInfo, type FileType, type RequestOptions, getSubdir, getFilePath } from './backend';
+
+declare global {
+  interface Window {
+    // File System Access API (Chromium only, not yet in lib.dom)
+    showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+}
+
+export interface LocalEntry {
+  name: string;
+  kind: 'file' | 'directory';
+}
+
+/**
+ * A directory tree the browser gave us access to
+ */
+export interface LocalDirectory {
+  readonly name: string;
+  getFile(path: string[]): Promise<File>;
+  list(path: string[]): Promise<LocalEntry[]>;
+}
+
+/**
+ * Error for a path that does not exist in the local folder
+ */
+export class LocalNotFoundError extends Error {
+  constructor(path: string[]) {
+    super(`File not found: ${path.join('/')}`);
+    this.name = 'LocalNotFoundError';
+  }
+}
+
+function isNotFound(err: unknown): boolean {
+  return err instanceof DOMException && (err.name === 'NotFoundError' || err.name === 'TypeMismatchError');
+}
+
+/**
+ * Wrap a FileSystemDirectoryHandle (showDirectoryPicker)
+ */
+export function directoryFromHandle(root: FileSystemDirectoryHandle): LocalDirectory {
+  async function getDirectory(path: string[]): Promise<FileSystemDirectoryHandle> {
+    let dir = root;
+    for (const part of path) {
+      dir = await dir.getDirectoryHandle(part);
+    }
+    return dir;
+  }
+
+  return {
+    name: root.name,
+
+    async getFile(path) {
+      try {
+        const dir = await getDirectory(path.slice(0, -1));
+        const handle = await dir.getFileHandle(path[path.length - 1]);
+        return await handle.getFile();
+      } catch (err) {
+        throw isNotFound(err) ? new LocalNotFoundError(path) : err;
+      }
+    },
+
+    async list(path) {
+      let dir: FileSystemDirectoryHandle;
+      try {
+        dir = await getDirectory(path);
+      } catch (err) {
+        throw isNotFound(err) ? new LocalNotFoundError(path) : err;
+      }
+      const entries: LocalEntry[] = [];
+      for await (const handle of dir.values()) {
+        entries.push({ name: handle.name, kind: handle.kind });
+      }
+      return entries;
+    },
+  };
+}
+
+/**
+ * Wrap a FileSystemDirectoryEntry (drag-and-drop via webkitGetAsEntry)
+ */
+export function directoryFromEntry(root: FileSystemDirectoryEntry): LocalDirectory {
+  function getDirectory(path: string[]): Promise<FileSystemDirectoryEntry> {
+    if (path.length === 0) {
+      return Promise.resolve(root);
+    }
+    return new Promise((resolve, reject) => {
+      root.getDirectory(path.join('/'), {}, (entry) => resolve(entry as FileSystemDirectoryEntry), reject);
+    });
+  }
+
+  function readAll(dir: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = dir.createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries() returns results in batches until it returns an empty one
+    return new Promise((resolve, reject) => {
+      const readBatch = () => {
+        reader.readEntries((batch) => {
+          if (batch.length === 0) {
+            resolve(entries);
+            return;
+          }
+          entries.push(...batch);
+          readBatch();
+        }, reject);
+      };
+      readBatch();
+    });
+  }
+
+  return {
+    name: root.name,
+
+    async getFile(path) {
+      try {
+        const entry = await new Promise<FileSystemFileEntry>((resolve, reject) => {
+          root.getFile(path.join('/'), {}, (e) => resolve(e as FileSystemFileEntry), reject);
+        });
+        return await new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+      } catch (err) {
+        throw isNotFound(err) ? new LocalNotFoundError(path) : err;
+      }
+    },
+
+    async list(path) {
+      let dir: FileSystemDirectoryEntry;
+      try {
+        dir = await getDirectory(path);
+      } catch (err) {
+        throw isNotFound(err) ? new LocalNotFoundError(path) : err;
+      }
+      const entries = await readAll(dir);
+      return entries.map((entry) => ({
+        name: entry.name,
+        kind: entry.isDirectory ? 'directory' as const : 'file' as const,
+      }));
+    },
+  };
+}
+
+/**
+ * Check if the browser can open folders with showDirectoryPicker()
+ */
+export function canPickDirectory(): boolean {
+  return typeof window.showDirectoryPicker === 'function';
+}
+
+/**
+ * Ask the user to pick a repository folder
+ */
+export async function pickDirectory(): Promise<LocalDirectory> {
+  if (!window.showDirectoryPicker) {
+    throw new Error('This browser cannot open folders. Drag and drop the repository folder instead.');
+  }
+  const handle = await window.showDirectoryPicker({ id: 'restic-repo', mode: 'read' });
+  return directoryFromHandle(handle);
+}
+
+/**
+ * Get the folder dropped onto the page, if any
+ */
+export function directoryFromDataTransfer(dataTransfer: DataTransfer): LocalDirectory | null {
+  for (let i = 0; i < dataTransfer.items.length; i++) {
+    const entry = dataTransfer.items[i].webkitGetAsEntry();
+    if (entry?.isDirectory) {
+      return directoryFromEntry(entry as FileSystemDirectoryEntry);
+    }
+  }
+  return null;
+}
+
+export class LocalBackend implements Backend {
+  private root: LocalDirectory;
+
+  constructor(config: LocalConfig) {
+    this.root = config.root;
+  }
+
+  private async getFile(fileType: FileType, name: string, signal?: AbortSignal): Promise<File> {
+    // Local reads are quick, so checking before each one is enough to cancel
+    signal?.throwIfAborted();
+    const path = getFilePath(fileType, name).split('/');
+    try {
+      return await this.root.getFile(path);
+    } catch (err) {
+      if (err instanceof LocalNotFoundError && fileType === 'config') {
+        throw new Error(`No config file in "${this.root.name}"\n\nSelect the repository folder itself: the one that contains config, data/, index/, keys/ and snapshots/.`);
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Human-readable description of the folder
+   */
+  location(): string {
+    return this.root.name;
+  }
+
+  /**
+   * Load a file from the repository
+   */
+  async load(fileType: FileType, name: string, options: RequestOptions = {}): Promise<Uint8Array> {
+    const file = await this.getFile(fileType, name, options.signal);
+    return new Uint8Array(await file.arrayBuffer());
+  }
+
+  /**
+   * Load partial content from a file
+   */
+  async loadPartial(
+    fileType: FileType,
+    name: string,
+    offset: number,
+    length: number,
+    options: RequestOptions = {}
+  ): Promise<Uint8Array> {
+    const file = await this.getFile(fileType, name, options.signal);
+    const slice = file.slice(offset, offset + length);
+    return new Uint8Array(await slice.arrayBuffer());
+  }
+
+  /**
+   * List files of a specific type (names only; sizes would need a read per file)
+   */
+  async list(fileType: FileType, options: RequestOptions = {}): Promise<FileInfo[]> {
+    const subdir = getSubdir(fileType);
+    const entries = await this.listDir(subdir ? [subdir] : []);
+
+    if (fileType !== 'data') {
+      return entries.filter((e) => e.kind === 'file').map((e) => ({ name: e.name }));
+    }
+
+    // Pack files live one level deeper, in data/XX/
+    const files: FileInfo[] = [];
+    for (const dir of entries.filter((e) => e.kind === 'directory')) {
+      options.signal?.throwIfAborted();
+      const packs = await this.listDir([subdir, dir.name]);
+      for (const pack of packs) {
+        if (pack.kind === 'file') {
+          files.push({ name: pack.name });
+        }
+      }
+    }
+    return files;
+  }
+
+  private async listDir(path: string[]): Promise<LocalEntry[]> {
+    try {
+      return await this.root.list(path);
+    } catch (err) {
+      // A missing directory (e.g. no locks/) is just empty
+      if (err instanceof LocalNotFoundError) {
+        return [];
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Check if a file exists
+   */
+  async exists(fileType: FileType, name: string, options: RequestOptions = {}): Promise<boolean> {
+    options.signal?.throwIfAborted();
+    try {
+      await this.getFile(fileType, name);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get file size
+   */
+  async getSize(fileType: FileType, name: string, options: RequestOptions = {}): Promise<number> {
+    const file = await this.getFile(fileType, name, options.signal);
+    return file.size;
+  }
+}
@@ -5,13 +5,11 @@
  */
 
 import type {
-  S3Config,
   Config,
   KeyFile,
   Snapshot,
   SnapshotWithId,
   Index,
-  IndexPack,
   Tree,
   Node,
   PackedBlob,
@@ -19,8 +17,13 @@ import type {
   ID,
 } from './types';
 import { idFromHex, idToHex, shortId } from './types';
-import { S3Backend, type FileType } from './s3';
-import { type CryptoKey, decrypt, openKeyFile, EXTENSION } from './crypto';
+import { type Backend, type FileType, type RequestOptions, isAbortError } from './backend';
+import { type CryptoKey, type KdfLimits, decrypt, openKeyFile, EXTENSION } from './crypto';
+import { createKeyDeriver, getKdfLimits } from './kdf';
+import { RepositoryCache } from './cache';
+import { BlobIndex, BlobIndexBuilder, type BlobIndexStats } from './blobIndex';
+import { decompressUnpacked, type DecodeResult } from './decode';
+import { decodePool } from './workerPool';
 // sha256 from noble-hashes
 import { sha256 } from '@noble/hashes/sha2.js';
 
@@ -31,28 +34,116 @@ const COMPRESSED_ENTRY_SIZE = 1 + 4 + 4 + 32; // type(1) + length(4) + uncompres
 const EAGER_ENTRIES = 15;
 const EAGER_READ_SIZE = EAGER_ENTRIES * COMPRESSED_ENTRY_SIZE + EXTENSION + HEADER_LENGTH_SIZE;
 
+// Read coalescing: blobs in the same pack are fetched with one range request
+// when the bytes between them are at most MAX_READ_GAP, up to MAX_READ_SIZE per request
+const MAX_READ_GAP = 256 * 1024;
+const MAX_READ_SIZE = 16 * 1024 * 1024;
+
+// File streams load blobs in batches of about this many (encrypted) bytes,
+// with one batch read ahead while the previous one is consumed
+const STREAM_BATCH_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Progress of unlocking the repository: scrypt runs once per key file tried
+ */
+export interface UnlockProgress {
+  key: number; // 1-based index of the key file being tried
+  keys: number;
+  progress: number; // Fraction of this key's derivation done, 0..1
+}
+
+export interface OpenOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: UnlockProgress) => void;
+  kdfLimits?: KdfLimits; // Defaults to getKdfLimits()
+}
+
+/**
+ * Error for a path that does not exist in a snapshot (or runs through
+ * something that isn't a directory)
+ */
+export class PathNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PathNotFoundError';
+  }
+}
+
+/**
+ * A contiguous byte range of a pack covering one or more blobs
+ */
+interface PackRead {
+  packId: string;
+  offset: number;
+  length: number;
+  blobs: PackedBlob[];
+}
+
+/**
+ * Group blobs by pack and merge nearby ones into as few range reads as possible
+ */
+function planPackReads(blobs: PackedBlob[]): PackRead[] {
+  const byPack = new Map<string, PackedBlob[]>();
+  for (const blob of blobs) {
+    const packId = idToHex(blob.packId);
+    const packBlobs = byPack.get(packId);
+    if (packBlobs) {
+      packBlobs.push(blob);
+    } else {
+      byPack.set(packId, [blob]);
+    }
+  }
+
+  const reads: PackRead[] = [];
+  for (const [packId, packBlobs] of byPack) {
+    packBlobs.sort((a, b) => a.offset - b.offset);
+
+    let current: PackRead | null = null;
+    for (const blob of packBlobs) {
+      const end = blob.offset + blob.length;
+      if (
+        current &&
+        blob.offset - (current.offset + current.length) <= MAX_READ_GAP &&
+        end - current.offset <= MAX_READ_SIZE
+      ) {
+        current.length = Math.max(current.length, end - current.offset);
+        current.blobs.push(blob);
+      } else {
+        current = { packId, offset: blob.offset, length: blob.length, blobs: [blob] };
+        reads.push(current);
+      }
+    }
+  }
+  return reads;
+}
+
 export class Repository {
-  private backend: S3Backend;
+  private backend: Backend;
   private masterKey: CryptoKey | null = null;
   private config: Config | null = null;
+  private cache: RepositoryCache | null = null;
   
-  // Index cache: maps blob ID (hex) -> PackedBlob
-  private blobIndex: Map<string, PackedBlob> = new Map();
-  private indexLoaded = false;
+  // Blob ID -> pack location, built from all index files on first use
+  private blobIndex: BlobIndex | null = null;
+  // Index load in progress, shared by every caller until it settles
+  private indexLoading: Promise<void> | null = null;
 
-  constructor(s3Config: S3Config) {
-    this.backend = new S3Backend(s3Config);
+  constructor(backend: Backend) {
+    this.backend = backend;
   }
 
   /**
-   * Open the repository with a password
+   * Open the repository with a password. Key derivation runs on a worker;
+   * aborting `signal` cancels it.
    */
-  async open(password: string): Promise<void> {
+  async open(password: string, options: OpenOptions = {}): Promise<void> {
+    const { signal, onProgress, kdfLimits = getKdfLimits() } = options;
+
     // Load and decrypt config (config file is just called 'config' with no extra name)
-    const configData = await this.backend.load('config', '');
+    const configData = await this.backend.load('config', '', { signal });
     
     // First, find a key and unlock
-    const keyFiles = await this.backend.list('keys');
+    const keyFiles = (await this.backend.list('keys', { signal })).map((file) => file.name);
     if (keyFiles.length === 0) {
       throw new Error('No key files found in repository');
     }
@@ -60,13 +151,18 @@ export class Repository {
     let masterKey: CryptoKey | null = null;
     let lastError: Error | null = null;
 
-    for (const keyFileName of keyFiles) {
+    for (const [i, keyFileName] of keyFiles.entries()) {
       try {
-        const keyData = await this.backend.load('keys', keyFileName);
+        const keyData = await this.backend.load('keys', keyFileName, { signal });
         const keyFile: KeyFile = JSON.parse(new TextDecoder().decode(keyData));
-        masterKey = await openKeyFile(keyFile, password);
+        signal?.throwIfAborted();
+        const report = (progress: number) => onProgress?.({ key: i + 1, keys: keyFiles.length, progress });
+        report(0);
+        const derive = createKeyDeriver({ signal, limits: kdfLimits, onProgress: report });
+        masterKey = await openKeyFile(keyFile, password, derive, kdfLimits);
         break; // Success!
       } catch (err) {
+        if (isAbortError(err)) throw err;
         lastError = err as Error;
         // Try next key
       }
@@ -80,70 +176,64 @@ export class Repository {
 
     // Decrypt config
     const configPlaintext = await decrypt(masterKey, configData);
-    const configJson = await this.decompressUnpacked(configPlaintext);
+    // The version isn't known yet; the config file itself is never compressed
+    const configJson = await decompressUnpacked(configPlaintext, 0);
     this.config = JSON.parse(new TextDecoder().decode(configJson));
 
     if (!this.config || this.config.version < 1 || this.config.version > 2) {
       throw new Error(`Unsupported repository version: ${this.config?.version}`);
     }
-  }
-
-  /**
-   * Decompress unpacked data (for snapshots, indexes, etc.)
-   */
-  private async decompressUnpacked(data: Uint8Array): Promise<Uint8Array> {
-    if (!this.config || this.config.version < 2) {
-      return data;
-    }
-
-    if (data.length === 0) {
-      return data;
-    }
-
-    // Check for raw JSON (legacy format)
-    if (data[0] === 0x5b /* '[' */ || data[0] === 0x7b /* '{' */) {
-      return data;
-    }
 
-    // Check version byte
-    if (data[0] !== 2) {
-      throw new Error(`Unsupported encoding version: ${data[0]}`);
-    }
-
-    // Import fzstd for decompression
-    const { decompress } = await import('fzstd');
-    return decompress(data.slice(1));
+    // Decrypted snapshots, indexes and trees are cached per repository ID
+    this.cache = await RepositoryCache.open(this.config.id);
   }
 
   /**
-   * Load and decrypt an unpacked file (snapshot, index, etc.)
+   * Load, decrypt and parse an unpacked JSON file (snapshot, index)
    */
-  private async loadUnpacked(fileType: FileType, name: string): Promise<Uint8Array> {
+  private async loadUnpacked<T>(fileType: 'snapshots' | 'index', name: string, options?: RequestOptions): Promise<T> {
     if (!this.masterKey) {
       throw new Error('Repository not opened');
     }
 
-    const data = await this.backend.load(fileType, name);
-    const plaintext = await decrypt(this.masterKey, data);
-    return this.decompressUnpacked(plaintext);
+    const cached = await this.cache?.get(fileType, name);
+    if (cached) {
+      return (await decodePool.run({ op: 'parse', data: cached })).value as T;
+    }
+
+    const data = await this.backend.load(fileType, name, options);
+    const result = await decodePool.run({
+      op: 'unpacked',
+      key: this.masterKey,
+      data,
+      version: this.config!.version,
+      parse: true,
+    });
+
+    void this.cache?.put(fileType, name, result.data);
+    return result.value as T;
   }
 
   /**
    * List all snapshots
    */
-  async listSnapshots(): Promise<SnapshotWithId[]> {
-    const snapshotFiles = await this.backend.list('snapshots');
-    const snapshots: SnapshotWithId[] = [];
-
-    for (const snapshotId of snapshotFiles) {
-      try {
-        const data = await this.loadUnpacked('snapshots', snapshotId);
-        const snapshot: Snapshot = JSON.parse(new TextDecoder().decode(data));
-        snapshots.push({ ...snapshot, id: snapshotId });
-      } catch (err) {
-        console.error(`Failed to load snapshot ${snapshotId}:`, err);
-      }
-    }
+  async listSnapshots(signal?: AbortSignal): Promise<SnapshotWithId[]> {
+    const snapshotFiles = (await this.backend.list('snapshots', { signal })).map((file) => file.name);
+
+    // Load in parallel; the backend's scheduler limits concurrency
+    const results = await Promise.all(
+      snapshotFiles.map(async (snapshotId): Promise<SnapshotWithId | null> => {
+        try {
+          const snapshot = await this.loadUnpacked<Snapshot>('snapshots', snapshotId, { signal });
+          return { ...snapshot, id: snapshotId };
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          console.error(`Failed to load snapshot ${snapshotId}:`, err);
+          return null;
+        }
+      })
+    );
+    const snapshots = results.filter((snapshot): snapshot is SnapshotWithId => snapshot !== null);
 
     // Sort by time, newest first
     snapshots.sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime());
@@ -151,95 +241,96 @@ export class Repository {
   }
 
   /**
-   * Load and build the blob index from all index files
+   * Load and build the blob index from all index files. The load is shared
+   * and runs to completion: aborting `signal` only stops this caller waiting.
    */
-  async loadIndex(): Promise<void> {
-    if (this.indexLoaded) return;
+  async loadIndex(signal?: AbortSignal): Promise<void> {
+    if (this.blobIndex) return;
+
+    if (!this.indexLoading) {
+      const loading = this.buildIndex();
+      this.indexLoading = loading;
+      // Let a later call try again after a failure
+      loading.catch(() => {}).finally(() => {
+        if (this.indexLoading === loading) this.indexLoading = null;
+      });
+    }
+    const loading = this.indexLoading;
+
+    signal?.throwIfAborted();
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => reject(signal!.reason);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      loading.then(resolve, reject).finally(() => signal?.removeEventListener('abort', onAbort));
+    });
+  }
 
-    const indexFiles = await this.backend.list('index');
+  private async buildIndex(): Promise<void> {
+    const options: RequestOptions = { priority: 'background' };
+    const indexFiles = (await this.backend.list('index', options)).map((file) => file.name);
     console.log(`Loading ${indexFiles.length} index files...`);
     
-    // Load all index files in parallel
-    const BATCH_SIZE = 20; // Limit concurrent requests
-    const indexDataMap = new Map<string, Index>();
-    
-    for (let i = 0; i < indexFiles.length; i += BATCH_SIZE) {
-      const batch = indexFiles.slice(i, i + BATCH_SIZE);
-      const results = await Promise.all(
-        batch.map(async (indexId) => {
-          try {
-            const data = await this.loadUnpacked('index', indexId);
-            const index: Index = JSON.parse(new TextDecoder().decode(data));
-            return { indexId, index };
-          } catch (err) {
-            console.error(`Failed to load index ${indexId}:`, err);
-            return null;
-          }
-        })
-      );
-      
-      for (const result of results) {
-        if (result) {
-          indexDataMap.set(result.indexId, result.index);
-        }
-      }
-    }
-
-    // Collect superseded indexes
+    // Load all index files in parallel; the backend's scheduler limits
+    // concurrency. Each index goes into the builder as soon as it is decoded,
+    // so only the compact tables outlive its JSON.
+    const builder = new BlobIndexBuilder();
     const superseded = new Set<string>();
-    for (const index of indexDataMap.values()) {
-      if (index.supersedes) {
-        for (const id of index.supersedes) {
+    let loaded = 0;
+    await Promise.all(
+      indexFiles.map(async (indexId) => {
+        // A missing index would hide its blobs, so fail instead of skipping it
+        // (transient errors have already been retried by the backend)
+        let index: Index;
+        try {
+          index = await this.loadUnpacked<Index>('index', indexId, options);
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          throw new Error(`Failed to load index ${shortId(idFromHex(indexId))}: ${(err as Error).message}`);
+        }
+        for (const id of index.supersedes ?? []) {
           superseded.add(id);
         }
-      }
-    }
+        builder.addIndex(indexId, index.packs);
+        loaded++;
+      })
+    );
 
-    // Process non-superseded indexes (already loaded, just parse)
-    for (const [indexId, index] of indexDataMap) {
-      if (superseded.has(indexId)) continue;
-
-      for (const pack of index.packs) {
-        const packId = idFromHex(pack.id);
-        
-        for (const blob of pack.blobs) {
-          const blobId = idFromHex(blob.id);
-          this.blobIndex.set(blob.id, {
-            id: blobId,
-            type: blob.type,
-            offset: blob.offset,
-            length: blob.length,
-            uncompressedLength: blob.uncompressed_length,
-            packId,
-          });
-        }
-      }
-    }
+    // Superseded indexes (legacy repositories) may have arrived before the
+    // index replacing them
+    const dropped = builder.dropIndexes(superseded);
+
+    this.blobIndex = builder.build();
+    const stats = this.blobIndex.stats();
+    console.log(
+      `Index loaded: ${stats.blobs} blobs in ${stats.packs} packs from ` +
+      `${loaded - dropped} index files (${(stats.bytes / 1024 / 1024).toFixed(1)} MiB)`
+    );
+  }
 
-    console.log(`Index loaded: ${this.blobIndex.size} blobs from ${indexDataMap.size - superseded.size} index files`);
-    this.indexLoaded = true;
+  /**
+   * Size and memory footprint of the blob index, or null if it isn't loaded yet
+   */
+  getIndexStats(): BlobIndexStats | null {
+    return this.blobIndex?.stats() ?? null;
   }
 
   /**
    * Load a blob by ID
    */
-  async loadBlob(type: BlobType, id: ID): Promise<Uint8Array> {
+  async loadBlob(type: BlobType, id: ID, options: RequestOptions = {}): Promise<Uint8Array> {
     if (!this.masterKey) {
       throw new Error('Repository not opened');
     }
 
-    await this.loadIndex();
-
-    const idHex = idToHex(id);
-    const blob = this.blobIndex.get(idHex);
-    
-    if (!blob) {
-      throw new Error(`Blob not found: ${shortId(id)}`);
-    }
+    return (await this.loadDecodedBlob(type, id, false, options)).data;
+  }
 
-    if (blob.type !== type) {
-      throw new Error(`Blob type mismatch: expected ${type}, got ${blob.type}`);
-    }
+  /**
+   * Load a blob by ID and decode it in the worker pool, parsing it as JSON if asked
+   */
+  private async loadDecodedBlob(type: BlobType, id: ID, parse: boolean, options: RequestOptions): Promise<DecodeResult> {
+    await this.loadIndex(options.signal);
+    const blob = this.findBlob(type, id);
 
     // Load the blob data from the pack
     const packIdHex = idToHex(blob.packId);
@@ -247,43 +338,111 @@ export class Repository {
       'data',
       packIdHex,
       blob.offset,
-      blob.length
+      blob.length,
+      options
     );
 
-    // Decrypt the blob
-    const plaintext = await decrypt(this.masterKey, ciphertext);
+    return this.decodeBlob(blob, ciphertext, parse);
+  }
+
+  /**
+   * Load several blobs, coalescing reads of blobs that sit close together in
+   * the same pack. Results are returned in the order of `ids`.
+   */
+  async loadBlobs(type: BlobType, ids: ID[], options: RequestOptions = {}): Promise<Uint8Array[]> {
+    if (!this.masterKey) {
+      throw new Error('Repository not opened');
+    }
+
+    await this.loadIndex(options.signal);
+
+    // The same blob may appear more than once (e.g. repeated chunks in a file)
+    const unique = new Map<string, PackedBlob>();
+    for (const id of ids) {
+      const blob = this.findBlob(type, id);
+      unique.set(idToHex(blob.id), blob);
+    }
+
+    const reads = planPackReads([...unique.values()]);
+    const decoded = new Map<string, Uint8Array>();
 
-    // Decompress if needed
-    if (blob.uncompressedLength && blob.uncompressedLength > 0) {
-      const { decompress } = await import('fzstd');
-      return decompress(plaintext);
+    await Promise.all(reads.map(async (read) => {
+      const data = await this.backend.loadPartial('data', read.packId, read.offset, read.length, options);
+      // All blobs of the read go to the worker pool at once
+      const results = await Promise.all(read.blobs.map((blob) => {
+        const start = blob.offset - read.offset;
+        return this.decodeBlob(blob, data.subarray(start, start + blob.length), false);
+      }));
+      read.blobs.forEach((blob, i) => decoded.set(idToHex(blob.id), results[i].data));
+    }));
+
+    return ids.map((id) => decoded.get(idToHex(id))!);
+  }
+
+  /**
+   * Look up a blob in the index and check its type
+   */
+  private findBlob(type: BlobType, id: ID): PackedBlob {
+    const blob = this.blobIndex?.get(id);
+    
+    if (!blob) {
+      throw new Error(`Blob not found: ${shortId(id)}`);
+    }
+
+    if (blob.type !== type) {
+      throw new Error(`Blob type mismatch: expected ${type}, got ${blob.type}`);
     }
 
-    return plaintext;
+    return blob;
   }
 
   /**
-   * Load a tree blob
+   * Decrypt and (if needed) decompress a blob read from its pack.
+   * `ciphertext` is handed over to a worker and can't be used afterwards.
    */
-  async loadTree(id: ID): Promise<Tree> {
-    const data = await this.loadBlob('tree', id);
-    return JSON.parse(new TextDecoder().decode(data));
+  private decodeBlob(blob: PackedBlob, ciphertext: Uint8Array, parse: boolean): Promise<DecodeResult> {
+    return decodePool.run({
+      op: 'blob',
+      key: this.masterKey!,
+      data: ciphertext,
+      compressed: !!blob.uncompressedLength && blob.uncompressedLength > 0,
+      parse,
+    });
+  }
+
+  /**
+   * Load a tree blob (interactive priority unless told otherwise)
+   */
+  async loadTree(id: ID, options: RequestOptions = {}): Promise<Tree> {
+    // A cached tree doesn't need the index at all
+    const idHex = idToHex(id);
+    const cached = await this.cache?.get('tree', idHex);
+    if (cached) {
+      return (await decodePool.run({ op: 'parse', data: cached })).value as Tree;
+    }
+
+    if (!this.masterKey) {
+      throw new Error('Repository not opened');
+    }
+    const result = await this.loadDecodedBlob('tree', id, true, { priority: 'interactive', ...options });
+    void this.cache?.put('tree', idHex, result.data);
+    return result.value as Tree;
   }
 
   /**
    * Load the root tree for a snapshot
    */
-  async loadSnapshotTree(snapshot: SnapshotWithId): Promise<Tree> {
+  async loadSnapshotTree(snapshot: SnapshotWithId, signal?: AbortSignal): Promise<Tree> {
     const treeId = idFromHex(snapshot.tree);
-    return this.loadTree(treeId);
+    return this.loadTree(treeId, { signal });
   }
 
   /**
    * Browse a path in a snapshot
    */
-  async browsePath(snapshot: SnapshotWithId, path: string): Promise<{ tree: Tree; node?: Node }> {
+  async browsePath(snapshot: SnapshotWithId, path: string, signal?: AbortSignal): Promise<{ tree: Tree; node?: Node }> {
     let currentTreeId = idFromHex(snapshot.tree);
-    let currentTree = await this.loadTree(currentTreeId);
+    let currentTree = await this.loadTree(currentTreeId, { signal });
     
     // Clean and split path
     const parts = path.split('/').filter(p => p && p !== '.');
@@ -293,14 +452,14 @@ export class Repository {
       const node = currentTree.nodes.find(n => n.name === name);
       
       if (!node) {
-        throw new Error(`Path not found: ${parts.slice(0, i + 1).join('/')}`);
+        throw new PathNotFoundError(`Path not found: ${parts.slice(0, i + 1).join('/')}`);
       }
 
       if (i === parts.length - 1) {
         // This is the target
         if (node.type === 'dir' && node.subtree) {
           const subtreeId = idFromHex(node.subtree);
-          const subtree = await this.loadTree(subtreeId);
+          const subtree = await this.loadTree(subtreeId, { signal });
           return { tree: subtree, node };
         }
         return { tree: currentTree, node };
@@ -308,20 +467,35 @@ export class Repository {
 
       // Navigate into directory
       if (node.type !== 'dir' || !node.subtree) {
-        throw new Error(`Not a directory: ${parts.slice(0, i + 1).join('/')}`);
+        throw new PathNotFoundError(`Not a directory: ${parts.slice(0, i + 1).join('/')}`);
       }
 
       currentTreeId = idFromHex(node.subtree);
-      currentTree = await this.loadTree(currentTreeId);
+      currentTree = await this.loadTree(currentTreeId, { signal });
     }
 
     return { tree: currentTree };
   }
 
+  /**
+   * Walk a directory tree depth-first, yielding every node below it with its
+   * path relative to the tree. Only the trees along the current path are held.
+   */
+  async *walkTree(treeId: ID, signal?: AbortSignal, prefix = ''): AsyncGenerator<{ path: string; node: Node }> {
+    const tree = await this.loadTree(treeId, { priority: 'normal', signal });
+    for (const node of tree.nodes) {
+      const path = prefix + node.name;
+      yield { path, node };
+      if (node.type === 'dir' && node.subtree) {
+        yield* this.walkTree(idFromHex(node.subtree), signal, `${path}/`);
+      }
+    }
+  }
+
   /**
    * Download a file's content
    */
-  async downloadFile(node: Node): Promise<Uint8Array> {
+  async downloadFile(node: Node, signal?: AbortSignal): Promise<Uint8Array> {
     if (node.type !== 'file') {
       throw new Error('Not a file');
     }
@@ -330,14 +504,8 @@ export class Repository {
       return new Uint8Array(0);
     }
 
-    // Load all content blobs and concatenate
-    const chunks: Uint8Array[] = [];
-    
-    for (const blobIdHex of node.content) {
-      const blobId = idFromHex(blobIdHex);
-      const chunk = await this.loadBlob('data', blobId);
-      chunks.push(chunk);
-    }
+    // Load all content blobs in the background lane (coalesced per pack) and concatenate
+    const chunks = await this.loadBlobs('data', node.content.map(idFromHex), { priority: 'background', signal });
 
     // Concatenate all chunks
     const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
@@ -351,6 +519,83 @@ export class Repository {
     return result;
   }
 
+  /**
+   * Open a file's content as a stream, one chunk per blob, holding at most two
+   * batches of blobs in memory. Starts at blob `firstBlob` to continue a
+   * partial copy. Cancelling the stream (or aborting `signal`) stops loading.
+   */
+  openFileStream(node: Node, signal?: AbortSignal, firstBlob = 0): ReadableStream<Uint8Array> {
+    if (node.type !== 'file') {
+      throw new Error('Not a file');
+    }
+    if (!this.masterKey) {
+      throw new Error('Repository not opened');
+    }
+
+    const ids = (node.content ?? []).slice(firstBlob).map(idFromHex);
+    const cancelled = new AbortController();
+    const options: RequestOptions = {
+      priority: 'background',
+      signal: signal ? AbortSignal.any([signal, cancelled.signal]) : cancelled.signal,
+    };
+
+    let batches: ID[][] = [];
+    let next = 0;
+    let readAhead: Promise<Uint8Array[]> | null = null;
+
+    const loadNext = (): Promise<Uint8Array[]> | null => {
+      if (next >= batches.length) return null;
+      const batch = this.loadBlobs('data', batches[next++], options);
+      batch.catch(() => {}); // Surfaced when the batch is consumed
+      return batch;
+    };
+
+    return new ReadableStream<Uint8Array>({
+      start: async () => {
+        await this.loadIndex(options.signal);
+        batches = this.planStreamBatches(ids);
+        readAhead = loadNext();
+      },
+      pull: async (controller) => {
+        const current = readAhead;
+        if (!current) {
+          controller.close();
+          return;
+        }
+        readAhead = loadNext();
+        for (const chunk of await current) {
+          controller.enqueue(chunk);
+        }
+      },
+      cancel: () => {
+        cancelled.abort();
+      },
+    }, { highWaterMark: 0 });
+  }
+
+  /**
+   * Split a file's blobs into consecutive batches of about STREAM_BATCH_SIZE bytes
+   */
+  private planStreamBatches(ids: ID[]): ID[][] {
+    const batches: ID[][] = [];
+    let batch: ID[] = [];
+    let batchSize = 0;
+    for (const id of ids) {
+      const { length } = this.findBlob('data', id);
+      if (batch.length > 0 && batchSize + length > STREAM_BATCH_SIZE) {
+        batches.push(batch);
+        batch = [];
+        batchSize = 0;
+      }
+      batch.push(id);
+      batchSize += length;
+    }
+    if (batch.length > 0) {
+      batches.push(batch);
+    }
+    return batches;
+  }
+
   /**
    * Get repository config
    */
@@ -358,6 +603,13 @@ export class Repository {
     return this.config;
   }
 
+  /**
+   * Describe where the repository is stored
+   */
+  location(): string {
+    return this.backend.location();
+  }
+
   /**
    * Check if repository is opened
    */
@@ -0,0 +1,340 @@
+/**
+ * Restore to a Local Folder
+ *
+ * Recreates a snapshot's file or directory tree inside a folder picked with
+ * the File System Access API: directories are created, files are streamed
+ * blob by blob and symlinks are written as placeholder files holding their
+ * target. Ownership, permissions and timestamps can't be set from a page.
+ *
+ * Progress is recorded in a checkpoint (entries finished in walk order, plus
+ * the committed part of the file being written), so an interrupted restore
+ * can pick up where it stopped - in the middle of a large file if need be.
+ */
+
+import type { Node } from './types';
+import { idFromHex } from './types';
+import type { Repository } from './repository';
+import { isAbortError } from './backend';
+
+const CHECKPOINT_STORAGE_KEY = 'restic-browser-restore';
+
+// Bytes written to a file between commits (each commit is a resume point)
+const FILE_COMMIT_SIZE = 64 * 1024 * 1024;
+
+// Minimum time between checkpoint saves while restoring
+const CHECKPOINT_INTERVAL = 1000;
+
+/**
+ * What to do with files that already exist in the target folder
+ */
+export type ExistingFilePolicy = 'skip' | 'overwrite';
+
+/**
+ * Where a restore stands, saved so it can be resumed
+ */
+export interface RestoreCheckpoint {
+  snapshot: string; // Snapshot ID
+  path: string; // Restored path in the snapshot
+  target: string; // Name of the target folder
+  existing: ExistingFilePolicy;
+  entries: number; // Entries fully restored, in walk order
+  file?: { blobs: number; bytes: number }; // Committed part of the next file
+}
+
+export interface RestoreProgress {
+  entries: number;
+  totalEntries: number;
+  bytes: number;
+  totalBytes: number;
+  path: string; // Entry being restored
+}
+
+export interface RestoreReport {
+  directories: number;
+  files: number;
+  symlinks: number; // Written as placeholder files
+  bytes: number;
+  resumed: number; // Entries already restored by an earlier run
+  skipped: string[]; // Existing files left alone
+  unsupported: string[]; // Devices, FIFOs and sockets
+  errors: { path: string; message: string }[];
+}
+
+export interface RestoreSource {
+  snapshot: string;
+  path: string;
+  node: Node;
+}
+
+export interface RestoreOptions {
+  existing?: ExistingFilePolicy; // Default 'skip'
+  resume?: RestoreCheckpoint; // Continue an interrupted restore of the same source
+  signal?: AbortSignal;
+  onProgress?: (progress: RestoreProgress) => void;
+  onCheckpoint?: (checkpoint: RestoreCheckpoint) => void;
+}
+
+/**
+ * Get the checkpoint of an unfinished restore, if there is one
+ */
+export function getRestoreCheckpoint(): RestoreCheckpoint | null {
+  try {
+    const stored = localStorage.getItem(CHECKPOINT_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setRestoreCheckpoint(checkpoint: RestoreCheckpoint | null): void {
+  if (checkpoint) {
+    localStorage.setItem(CHECKPOINT_STORAGE_KEY, JSON.stringify(checkpoint));
+  } else {
+    localStorage.removeItem(CHECKPOINT_STORAGE_KEY);
+  }
+}
+
+/**
+ * Check if the browser can write to a picked folder
+ */
+export function canRestore(): boolean {
+  return typeof window.showDirectoryPicker === 'function';
+}
+
+/**
+ * Ask the user for a folder to restore into
+ */
+export async function pickRestoreTarget(): Promise<FileSystemDirectoryHandle> {
+  if (!window.showDirectoryPicker) {
+    throw new Error('This browser cannot write to local folders');
+  }
+  return window.showDirectoryPicker({ id: 'restic-restore', mode: 'readwrite' });
+}
+
+function isNotFound(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'NotFoundError';
+}
+
+/**
+ * The node and everything below it, with paths starting at its name
+ */
+async function* restoreEntries(
+  repo: Repository,
+  node: Node,
+  signal?: AbortSignal
+): AsyncGenerator<{ path: string; node: Node }> {
+  yield { path: node.name, node };
+  if (node.type === 'dir' && node.subtree) {
+    yield* repo.walkTree(idFromHex(node.subtree), signal, `${node.name}/`);
+  }
+}
+
+/**
+ * Restore `source` into `target`. Problems with single entries are collected
+ * in the report rather than stopping the restore; aborting `signal` stops it
+ * with an AbortError after saving a checkpoint.
+ */
+export async function restoreTree(
+  repo: Repository,
+  source: RestoreSource,
+  target: FileSystemDirectoryHandle,
+  options: RestoreOptions = {}
+): Promise<RestoreReport> {
+  const { signal, onProgress } = options;
+  const existing = options.resume?.existing ?? options.existing ?? 'skip';
+  const resume = options.resume;
+  if (resume && (resume.snapshot !== source.snapshot || resume.path !== source.path)) {
+    throw new Error('The checkpoint belongs to a different restore');
+  }
+
+  const report: RestoreReport = {
+    directories: 0,
+    files: 0,
+    symlinks: 0,
+    bytes: 0,
+    resumed: 0,
+    skipped: [],
+    unsupported: [],
+    errors: [],
+  };
+  const progress: RestoreProgress = { entries: 0, totalEntries: 0, bytes: 0, totalBytes: 0, path: '' };
+
+  // One walk: the entries are kept to total them up for progress first
+  const entries: { path: string; node: Node }[] = [];
+  for await (const entry of restoreEntries(repo, source.node, signal)) {
+    entries.push(entry);
+    if (entry.node.type === 'file') progress.totalBytes += entry.node.size ?? 0;
+  }
+  progress.totalEntries = entries.length;
+  onProgress?.({ ...progress });
+
+  let checkpoint: RestoreCheckpoint = resume ?? {
+    snapshot: source.snapshot,
+    path: source.path,
+    target: target.name,
+    existing,
+    entries: 0,
+  };
+  let lastSave = 0;
+  const saveCheckpoint = (next: RestoreCheckpoint, force = false) => {
+    checkpoint = next;
+    const now = Date.now();
+    if (force || now - lastSave >= CHECKPOINT_INTERVAL) {
+      lastSave = now;
+      options.onCheckpoint?.(checkpoint);
+    }
+  };
+
+  // Directory handles by path, created as needed
+  const directories = new Map<string, FileSystemDirectoryHandle>([['', target]]);
+  const getDirectory = async (path: string): Promise<FileSystemDirectoryHandle> => {
+    let dir = directories.get(path);
+    if (!dir) {
+      const slash = path.lastIndexOf('/');
+      const parent = await getDirectory(slash < 0 ? '' : path.slice(0, slash));
+      dir = await parent.getDirectoryHandle(path.slice(slash + 1), { create: true });
+      directories.set(path, dir);
+    }
+    return dir;
+  };
+
+  /**
+   * Unless overwriting, check that a file isn't there already
+   */
+  const fileExists = async (dir: FileSystemDirectoryHandle, name: string): Promise<boolean> => {
+    if (existing === 'overwrite') return false;
+    try {
+      await dir.getFileHandle(name);
+      return true;
+    } catch (err) {
+      if (isNotFound(err)) return false;
+      throw err;
+    }
+  };
+
+  /**
+   * Stream a file's content, committing every FILE_COMMIT_SIZE bytes
+   */
+  const writeFile = async (
+    handle: FileSystemFileHandle,
+    node: Node,
+    index: number,
+    partial: { blobs: number; bytes: number } | undefined
+  ) => {
+    let committed = partial ?? { blobs: 0, bytes: 0 };
+    let blobs = committed.blobs;
+    let bytes = committed.bytes;
+    progress.bytes += bytes;
+
+    let writable = await handle.createWritable({ keepExistingData: partial !== undefined });
+    const reader = repo.openFileStream(node, signal, committed.blobs).getReader();
+    try {
+      if (partial) {
+        await writable.truncate(partial.bytes);
+        await writable.seek(partial.bytes);
+      }
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        await writable.write(value as Uint8Array<ArrayBuffer>); // Blobs are never shared buffers
+        blobs++;
+        bytes += value.length;
+        progress.bytes += value.length;
+        onProgress?.({ ...progress });
+
+        if (bytes - committed.bytes >= FILE_COMMIT_SIZE) {
+          await writable.close();
+          committed = { blobs, bytes };
+          saveCheckpoint({ ...checkpoint, entries: index, file: committed }, true);
+          writable = await handle.createWritable({ keepExistingData: true });
+          await writable.seek(bytes);
+        }
+      }
+      await writable.close();
+    } catch (err) {
+      // Drops anything written since the last commit
+      await writable.abort().catch(() => {});
+      throw err;
+    } finally {
+      void reader.cancel().catch(() => {});
+    }
+    report.bytes += bytes - (partial?.bytes ?? 0);
+  };
+
+  const restoreEntry = async (path: string, node: Node, index: number) => {
+    const slash = path.lastIndexOf('/');
+    const parentPath = slash < 0 ? '' : path.slice(0, slash);
+
+    switch (node.type) {
+      case 'dir':
+        await getDirectory(path);
+        report.directories++;
+        return;
+
+      case 'file': {
+        const dir = await getDirectory(parentPath);
+        const partial = resume?.file && index === resume.entries ? resume.file : undefined;
+        if (!partial && await fileExists(dir, node.name)) {
+          report.skipped.push(path);
+          progress.bytes += node.size ?? 0;
+          return;
+        }
+        // The file exists from here on, however little of it gets written:
+        // a resume has to rewrite it rather than skip it
+        saveCheckpoint({ ...checkpoint, entries: index, file: partial ?? { blobs: 0, bytes: 0 } }, true);
+        const handle = await dir.getFileHandle(node.name, { create: true });
+        await writeFile(handle, node, index, partial);
+        report.files++;
+        return;
+      }
+
+      case 'symlink': {
+        const dir = await getDirectory(parentPath);
+        if (await fileExists(dir, node.name)) {
+          report.skipped.push(path);
+          return;
+        }
+        const handle = await dir.getFileHandle(node.name, { create: true });
+        const writable = await handle.createWritable();
+        await writable.write(node.linktarget ?? '');
+        await writable.close();
+        report.symlinks++;
+        return;
+      }
+
+      default:
+        report.unsupported.push(path);
+    }
+  };
+
+  let index = 0;
+  try {
+    for (const { path, node } of entries) {
+      signal?.throwIfAborted();
+      progress.path = path;
+
+      if (resume && index < resume.entries) {
+        // Restored by an earlier run
+        report.resumed++;
+        if (node.type === 'file') progress.bytes += node.size ?? 0;
+      } else {
+        try {
+          await restoreEntry(path, node, index);
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          report.errors.push({ path, message: (err as Error).message });
+        }
+        saveCheckpoint({ ...checkpoint, entries: index + 1, file: undefined });
+      }
+
+      index++;
+      progress.entries = index;
+      onProgress?.({ ...progress });
+    }
+  } finally {
+    // Record exactly how far this run got
+    options.onCheckpoint?.(checkpoint);
+  }
+
+  return report;
+}
@@ -4,46 +4,125 @@
  * Handles communication with S3-compatible storage.
  */
 
-import type { S3Config } from './types';
+import type { S3Config, S3Credentials } from './types';
+import {
+  type Backend,
+  type BackendOptions,
+  type FileInfo,
+  type FileType,
+  type RequestOptions,
+  getSubdir,
+  getFilePath,
+  diagnoseNetworkError,
+  isAbortError,
+  unquoteEtag,
+} from './backend';
+import { HttpClient } from './http';
 import { AwsClient } from 'aws4fetch';
 
-export type FileType = 
-  | 'data'      // Pack files in data/XX/
-  | 'keys'      // Key files in keys/
-  | 'locks'     // Lock files in locks/
-  | 'snapshots' // Snapshot files in snapshots/
-  | 'index'     // Index files in index/
-  | 'config';   // Config file
-
-function getSubdir(fileType: FileType): string {
-  switch (fileType) {
-    case 'data': return 'data';
-    case 'keys': return 'keys';
-    case 'locks': return 'locks';
-    case 'snapshots': return 'snapshots';
-    case 'index': return 'index';
-    case 'config': return '';
-  }
+/**
+ * CORS setup advice for S3-compatible providers
+ */
+function s3CorsHelp(origin: string): string {
+  let help = '\n\nFor Backblaze B2, the web UI doesn\'t support all CORS options.';
+  help += '\nYou must use the b2 CLI to set allowedHeaders:';
+  help += '\n\nb2 bucket update <bucketName> allPublic --cors-rules \'[{';
+  help += '\n  "corsRuleName": "resticBrowser",';
+  help += '\n  "allowedOrigins": ["' + origin + '"],';
+  help += '\n  "allowedOperations": ["s3_head", "s3_get"],';
+  help += '\n  "allowedHeaders": ["authorization", "x-amz-*", "content-type", "range"],';
+  help += '\n  "exposeHeaders": ["content-length", "content-range", "etag", "x-amz-*"],';
+  help += '\n  "maxAgeSeconds": 3600';
+  help += '\n}]\'';
+  help += '\n\nFor other S3 providers, ensure CORS allows:';
+  help += '\n• Origin: ' + origin;
+  help += '\n• Methods: GET, HEAD';
+  help += '\n• Headers: authorization, x-amz-*, content-type, range';
+  return help;
 }
 
-export class S3Backend {
-  private client: AwsClient;
+// Error codes S3 returns for expired temporary credentials
+const EXPIRED_TOKEN_CODES = ['ExpiredToken', 'TokenRefreshRequired'];
+
+export class S3Backend implements Backend {
+  private client: AwsClient | null = null; // null for anonymous access
+  private http: HttpClient;
   private bucket: string;
   private prefix: string;
   private endpoint: string;
+  private region: string;
   private usePathStyle: boolean;
+  // ListObjects version the server speaks, found on the first listing
+  private listVersion: 1 | 2 | null = null;
+  private expiresAt: number | undefined;
+  private onCredentialsExpired?: () => Promise<S3Credentials | null>;
+  // Shared by concurrent requests that hit the expiry together
+  private pendingRefresh: Promise<void> | null = null;
 
-  constructor(config: S3Config) {
-    this.client = new AwsClient({
-      accessKeyId: config.accessKeyId,
-      secretAccessKey: config.secretAccessKey,
-      region: config.region || 'auto', // 'auto' works for most S3-compatible services
-      service: 's3', // Explicitly set service for non-AWS endpoints
-    });
+  constructor(config: S3Config, options: BackendOptions = {}) {
     this.bucket = config.bucket;
     this.prefix = config.prefix || '';
     this.endpoint = config.endpoint;
+    this.region = config.region || 'auto'; // 'auto' works for most S3-compatible services
     this.usePathStyle = config.usePathStyle ?? true;
+    this.onCredentialsExpired = options.onCredentialsExpired;
+
+    if (!config.anonymous) {
+      this.setCredentials(config);
+    }
+    this.http = new HttpClient(
+      (url, init) => this.client ? this.client.fetch(url, init) : fetch(url, init),
+      options
+    );
+  }
+
+  private setCredentials(credentials: S3Credentials): void {
+    this.client = new AwsClient({
+      accessKeyId: credentials.accessKeyId,
+      secretAccessKey: credentials.secretAccessKey,
+      sessionToken: credentials.sessionToken || undefined,
+      region: this.region,
+      service: 's3', // Explicitly set service for non-AWS endpoints
+      retries: 0, // Retries are handled by HttpClient
+    });
+    this.expiresAt = credentials.expiresAt;
+  }
+
+  /**
+   * Ask for fresh credentials once, however many requests are waiting on them
+   */
+  private refreshCredentials(): Promise<void> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = (async () => {
+        const credentials = await this.onCredentialsExpired?.();
+        if (!credentials) {
+          throw new Error('The S3 session credentials have expired.\n\nReconnect with a fresh access key, secret and session token.');
+        }
+        this.setCredentials(credentials);
+      })().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    return this.pendingRefresh;
+  }
+
+  /**
+   * Send a signed request, renewing expired temporary credentials and resending
+   */
+  private async send(url: string, init: RequestInit = {}): Promise<Response> {
+    for (;;) {
+      if (this.expiresAt !== undefined && this.expiresAt <= Date.now()) {
+        await this.refreshCredentials();
+        continue;
+      }
+
+      const response = await this.http.send(url, init);
+      if ((response.status === 400 || response.status === 403) && this.client && await isExpiredTokenResponse(response)) {
+        await this.refreshCredentials();
+        continue;
+      }
+      return response;
+    }
   }
 
   private getUrl(path: string): string {
@@ -61,91 +140,56 @@ export class S3Backend {
     }
   }
 
-  private getFilePath(fileType: FileType, name: string): string {
-    if (fileType === 'config') {
-      // Config file is just 'config' at the root
-      return 'config';
+  private getBucketUrl(params: URLSearchParams): string {
+    if (this.usePathStyle) {
+      return `${this.endpoint}/${this.bucket}?${params}`;
     }
-    
-    const subdir = getSubdir(fileType);
-    
-    // Pack files use subdirectory based on first 2 chars of the name
-    if (fileType === 'data') {
-      const prefix = name.substring(0, 2);
-      return `${subdir}/${prefix}/${name}`;
+    const baseUrl = new URL(this.endpoint);
+    baseUrl.hostname = `${this.bucket}.${baseUrl.hostname}`;
+    return `${baseUrl.origin}?${params}`;
+  }
+
+  /**
+   * Send a minimal listing request and return the raw response (see detectS3Addressing).
+   * Like list(), falls back to V1 for servers that reject `list-type=2`.
+   */
+  async probe(signal?: AbortSignal): Promise<Response> {
+    const prefix = this.prefix ? `${this.prefix}/keys/` : 'keys/';
+    for (;;) {
+      const version = this.listVersion ?? 2;
+      const params = new URLSearchParams(version === 2
+        ? { 'list-type': '2', 'max-keys': '1', prefix }
+        : { 'max-keys': '1', prefix });
+      const response = await this.send(this.getBucketUrl(params), { signal });
+      if (this.listVersion === null && await rejectsListV2(response)) {
+        this.listVersion = 1;
+        continue;
+      }
+      return response;
     }
-    
-    // Other files (keys, snapshots, index, locks) are in their subdir
-    return `${subdir}/${name}`;
+  }
+
+  /**
+   * Human-readable description of the bucket and prefix
+   */
+  location(): string {
+    return this.prefix ? `${this.bucket}/${this.prefix}` : this.bucket;
   }
 
   /**
    * Load a file from the repository
    */
-  async load(fileType: FileType, name: string): Promise<Uint8Array> {
-    const path = this.getFilePath(fileType, name);
+  async load(fileType: FileType, name: string, options: RequestOptions = {}): Promise<Uint8Array> {
+    const path = getFilePath(fileType, name);
     const url = this.getUrl(path);
     
     let response: Response;
     try {
-      response = await this.client.fetch(url);
+      response = await this.send(url, { signal: options.signal });
     } catch (err) {
+      if (isAbortError(err)) throw err;
       const error = err as Error;
-      
-      // "Failed to fetch" means the request never completed - usually CORS or network level
-      // The browser hides the actual response for security, but we can try to diagnose
-      let diagnosis = '';
-      const isCrossOrigin = !url.startsWith(window.location.origin);
-      
-      if (error.message.includes('Failed to fetch') && isCrossOrigin) {
-        // Try an unauthenticated request - the error response might have CORS headers
-        // even if the success response doesn't (some S3 providers do this)
-        try {
-          const testResponse = await fetch(url, { method: 'GET' });
-          // If we get here, the server responded! CORS is partially working.
-          const text = await testResponse.text();
-          if (text.includes('<Error>')) {
-            // Parse S3 XML error
-            const codeMatch = text.match(/<Code>([^<]+)<\/Code>/);
-            const msgMatch = text.match(/<Message>([^<]+)<\/Message>/);
-            if (codeMatch || msgMatch) {
-              diagnosis = `\n\nServer response: ${codeMatch?.[1] || 'Error'} - ${msgMatch?.[1] || 'Unknown error'}`;
-            }
-          } else if (testResponse.status >= 400) {
-            diagnosis = `\n\nServer returned HTTP ${testResponse.status}: ${text.substring(0, 200)}`;
-          }
-        } catch (testErr) {
-          // The unauthenticated request also failed with CORS
-          // This means CORS is completely blocking us
-          diagnosis = '\n\nCORS is blocking all requests to this server (including the error response).';
-        }
-      }
-      
-      let hint = '';
-      if (error.message.includes('Failed to fetch')) {
-        hint = '\n\nThe browser blocked this request.' + diagnosis;
-        if (isCrossOrigin) {
-          const origin = window.location.origin;
-          hint += '\n\nThis is a CORS (Cross-Origin Resource Sharing) issue.';
-          hint += '\n\nFor Backblaze B2, the web UI doesn\'t support all CORS options.';
-          hint += '\nYou must use the b2 CLI to set allowedHeaders:';
-          hint += '\n\nb2 bucket update <bucketName> allPublic --cors-rules \'[{';
-          hint += '\n  "corsRuleName": "resticBrowser",';
-          hint += '\n  "allowedOrigins": ["' + origin + '"],';
-          hint += '\n  "allowedOperations": ["s3_head", "s3_get"],';
-          hint += '\n  "allowedHeaders": ["authorization", "x-amz-*", "content-type", "range"],';
-          hint += '\n  "exposeHeaders": ["content-length", "content-range", "etag", "x-amz-*"],';
-          hint += '\n  "maxAgeSeconds": 3600';
-          hint += '\n}]\'';
-          hint += '\n\nFor other S3 providers, ensure CORS allows:';
-          hint += '\n• Origin: ' + origin;
-          hint += '\n• Methods: GET, HEAD';
-          hint += '\n• Headers: authorization, x-amz-*, content-type, range';
-        } else {
-          hint += '\n\nThe server may be down or unreachable.';
-        }
-        hint += '\n\n→ Check browser DevTools (F12) → Network tab for details';  
-      }
+      const hint = await diagnoseNetworkError(url, error, s3CorsHelp);
       throw new Error(`Network error loading ${fileType}/${name}\nURL: ${url}\nError: ${error.message}${hint}`);
     }
     
@@ -170,20 +214,23 @@ export class S3Backend {
     fileType: FileType,
     name: string,
     offset: number,
-    length: number
+    length: number,
+    options: RequestOptions = {}
   ): Promise<Uint8Array> {
-    const path = this.getFilePath(fileType, name);
+    const path = getFilePath(fileType, name);
     const url = this.getUrl(path);
     
     const end = offset + length - 1;
     let response: Response;
     try {
-      response = await this.client.fetch(url, {
+      response = await this.send(url, {
         headers: {
           Range: `bytes=${offset}-${end}`,
         },
+        signal: options.signal,
       });
     } catch (err) {
+      if (isAbortError(err)) throw err;
       const error = err as Error;
       throw new Error(`Network error loading ${path} (range ${offset}-${end}): ${error.message}`);
     }
@@ -205,12 +252,17 @@ export class S3Backend {
   /**
    * Load the end of a file (for reading pack headers)
    */
-  async loadTail(fileType: FileType, name: string, tailSize: number): Promise<{ data: Uint8Array; totalSize: number }> {
-    const path = this.getFilePath(fileType, name);
+  async loadTail(
+    fileType: FileType,
+    name: string,
+    tailSize: number,
+    options: RequestOptions = {}
+  ): Promise<{ data: Uint8Array; totalSize: number }> {
+    const path = getFilePath(fileType, name);
     const url = this.getUrl(path);
     
     // First, do a HEAD request to get the file size
-    const headResponse = await this.client.fetch(url, { method: 'HEAD' });
+    const headResponse = await this.send(url, { method: 'HEAD', signal: options.signal });
     if (!headResponse.ok) {
       throw new Error(`Failed to HEAD ${fileType}/${name}: ${headResponse.status}`);
     }
@@ -218,10 +270,11 @@ export class S3Backend {
     const contentLength = parseInt(headResponse.headers.get('Content-Length') || '0', 10);
     const start = Math.max(0, contentLength - tailSize);
     
-    const response = await this.client.fetch(url, {
+    const response = await this.send(url, {
       headers: {
         Range: `bytes=${start}-${contentLength - 1}`,
       },
+      signal: options.signal,
     });
     
     if (!response.ok && response.status !== 206) {
@@ -237,34 +290,30 @@ export class S3Backend {
 
   /**
    * List files of a specific type
+   *
+   * Uses ListObjectsV2 and falls back to V1 (marker paging) for servers that
+   * reject `list-type=2` or silently answer with a V1 listing.
    */
-  async list(fileType: FileType): Promise<string[]> {
+  async list(fileType: FileType, options: RequestOptions = {}): Promise<FileInfo[]> {
     const subdir = getSubdir(fileType);
     const prefix = this.prefix ? `${this.prefix}/${subdir}/` : `${subdir}/`;
     
-    const files: string[] = [];
-    let continuationToken: string | undefined;
+    const files: FileInfo[] = [];
+    let token: string | undefined; // V2 continuation token or V1 marker
     
-    do {
-      const params = new URLSearchParams({
-        'list-type': '2',
-        prefix,
-        ...(continuationToken ? { 'continuation-token': continuationToken } : {}),
-      });
+    for (;;) {
+      const version = this.listVersion ?? 2;
+      const params = new URLSearchParams(version === 2
+        ? { 'list-type': '2', prefix, ...(token ? { 'continuation-token': token } : {}) }
+        : { prefix, ...(token ? { marker: token } : {}) });
       
-      let url: string;
-      if (this.usePathStyle) {
-        url = `${this.endpoint}/${this.bucket}?${params}`;
-      } else {
-        const baseUrl = new URL(this.endpoint);
-        baseUrl.hostname = `${this.bucket}.${baseUrl.hostname}`;
-        url = `${baseUrl.origin}?${params}`;
-      }
+      const url = this.getBucketUrl(params);
       
       let response: Response;
       try {
-        response = await this.client.fetch(url);
+        response = await this.send(url, { signal: options.signal });
       } catch (err) {
+        if (isAbortError(err)) throw err;
         const error = err as Error;
         let hint = '';
         if (error.message.includes('Failed to fetch')) {
@@ -279,6 +328,11 @@ export class S3Backend {
       }
       
       if (!response.ok) {
+        if (this.listVersion === null && await rejectsListV2(response)) {
+          // Older appliances reject list-type=2 outright
+          this.listVersion = 1;
+          continue;
+        }
         let body = '';
         try {
           body = await response.text();
@@ -292,26 +346,29 @@ export class S3Backend {
       const parser = new DOMParser();
       const xml = parser.parseFromString(text, 'text/xml');
       
-      const contents = xml.getElementsByTagName('Contents');
-      for (let i = 0; i < contents.length; i++) {
-        const key = contents[i].getElementsByTagName('Key')[0]?.textContent;
-        if (key) {
-          // Extract just the filename from the full path
-          const parts = key.split('/');
-          const filename = parts[parts.length - 1];
-          if (filename) {
-            files.push(filename);
-          }
-        }
+      // A server that ignores list-type answers with a V1 listing, recognizable
+      // by its Marker (V2 has no Marker and pages with a ContinuationToken)
+      if (this.listVersion === null) {
+        const tagged = (name: string) => xml.getElementsByTagName(name).length > 0;
+        const isV1 = (tagged('Marker') || tagged('NextMarker'))
+          && !tagged('ContinuationToken') && !tagged('NextContinuationToken');
+        this.listVersion = isV1 ? 1 : 2;
       }
       
-      const isTruncated = xml.getElementsByTagName('IsTruncated')[0]?.textContent === 'true';
-      if (isTruncated) {
-        continuationToken = xml.getElementsByTagName('NextContinuationToken')[0]?.textContent || undefined;
-      } else {
-        continuationToken = undefined;
+      const page = parseS3Contents(xml);
+      files.push(...page);
+      
+      if (xml.getElementsByTagName('IsTruncated')[0]?.textContent !== 'true') {
+        break;
+      }
+      token = this.listVersion === 2
+        ? xml.getElementsByTagName('NextContinuationToken')[0]?.textContent || undefined
+        // NextMarker is only sent with a delimiter; otherwise continue after the last key
+        : xml.getElementsByTagName('NextMarker')[0]?.textContent || lastKey(xml);
+      if (!token) {
+        break;
       }
-    } while (continuationToken);
+    }
     
     return files;
   }
@@ -319,14 +376,15 @@ export class S3Backend {
   /**
    * Check if a file exists
    */
-  async exists(fileType: FileType, name: string): Promise<boolean> {
-    const path = this.getFilePath(fileType, name);
+  async exists(fileType: FileType, name: string, options: RequestOptions = {}): Promise<boolean> {
+    const path = getFilePath(fileType, name);
     const url = this.getUrl(path);
     
     try {
-      const response = await this.client.fetch(url, { method: 'HEAD' });
+      const response = await this.send(url, { method: 'HEAD', signal: options.signal });
       return response.ok;
-    } catch {
+    } catch (err) {
+      if (isAbortError(err)) throw err;
       return false;
     }
   }
@@ -334,11 +392,11 @@ export class S3Backend {
   /**
    * Get file size
    */
-  async getSize(fileType: FileType, name: string): Promise<number> {
-    const path = this.getFilePath(fileType, name);
+  async getSize(fileType: FileType, name: string, options: RequestOptions = {}): Promise<number> {
+    const path = getFilePath(fileType, name);
     const url = this.getUrl(path);
     
-    const response = await this.client.fetch(url, { method: 'HEAD' });
+    const response = await this.send(url, { method: 'HEAD', signal: options.signal });
     if (!response.ok) {
       throw new Error(`Failed to get size of ${fileType}/${name}: ${response.status}`);
     }
@@ -346,3 +404,153 @@ export class S3Backend {
     return parseInt(response.headers.get('Content-Length') || '0', 10);
   }
 }
+
+/**
+ * Check for an ExpiredToken error without consuming the response body
+ */
+async function isExpiredTokenResponse(response: Response): Promise<boolean> {
+  try {
+    const text = await response.clone().text();
+    return EXPIRED_TOKEN_CODES.some((code) => text.includes(`<Code>${code}</Code>`));
+  } catch {
+    return false;
+  }
+}
+
+function childText(element: Element, tag: string): string | undefined {
+  return element.getElementsByTagName(tag)[0]?.textContent ?? undefined;
+}
+
+/**
+ * Read the <Contents> entries of a ListBucketResult (V1 or V2)
+ */
+export function parseS3Contents(xml: Document): FileInfo[] {
+  const files: FileInfo[] = [];
+  const contents = xml.getElementsByTagName('Contents');
+  for (let i = 0; i < contents.length; i++) {
+    const key = childText(contents[i], 'Key');
+    // Extract just the filename from the full path
+    const name = key?.split('/').pop();
+    if (!name) {
+      continue;
+    }
+    const size = childText(contents[i], 'Size');
+    const lastModified = childText(contents[i], 'LastModified');
+    files.push({
+      name,
+      size: size ? parseInt(size, 10) : undefined,
+      lastModified: lastModified ? new Date(lastModified) : undefined,
+      etag: unquoteEtag(childText(contents[i], 'ETag')),
+    });
+  }
+  return files;
+}
+
+function lastKey(xml: Document): string | undefined {
+  const contents = xml.getElementsByTagName('Contents');
+  const last = contents[contents.length - 1];
+  return last ? childText(last, 'Key') : undefined;
+}
+
+// Addressing that a bucket was found to answer to
+export interface S3Addressing {
+  endpoint: string;
+  region?: string; // Only when the server named the bucket's region
+  usePathStyle: boolean;
+}
+
+// Global or regional AWS endpoints, e.g. s3.amazonaws.com or s3.eu-west-1.amazonaws.com
+const AWS_ENDPOINT_PATTERN = /^s3([.-][a-z0-9-]+)?\.amazonaws\.com$/;
+
+/**
+ * Point an AWS endpoint at the bucket's region (other providers are left alone)
+ */
+function regionalEndpoint(endpoint: string, region: string): string {
+  const url = new URL(endpoint);
+  if (!AWS_ENDPOINT_PATTERN.test(url.hostname)) {
+    return endpoint;
+  }
+  return `${url.protocol}//s3.${region}.amazonaws.com`;
+}
+
+/**
+ * Find the bucket region named by a redirect or wrong-region error
+ */
+async function bucketRegionFrom(response: Response): Promise<string | null> {
+  const header = response.headers.get('x-amz-bucket-region');
+  if (header) {
+    return header;
+  }
+  const text = await response.text().catch(() => '');
+  return text.match(/<Region>([^<]+)<\/Region>/)?.[1] ?? null;
+}
+
+/**
+ * Whether a listing was refused because the server doesn't support
+ * ListObjectsV2, rather than e.g. for being sent to the wrong region
+ */
+async function rejectsListV2(response: Response): Promise<boolean> {
+  if (response.status === 501) {
+    return true;
+  }
+  return response.status === 400 && !(await bucketRegionFrom(response.clone()));
+}
+
+/**
+ * Probe how the bucket must be addressed
+ *
+ * Tries the configured (or path-style) addressing first and falls back to the
+ * other style when the bucket can't be reached that way. Wrong-region answers
+ * (301 PermanentRedirect, 400 AuthorizationHeaderMalformed) name the bucket's
+ * region, which is then used for signing. Returns null if neither style works -
+ * connecting will then report the underlying error.
+ */
+export async function detectS3Addressing(config: S3Config, signal?: AbortSignal): Promise<S3Addressing | null> {
+  let endpoint = config.endpoint;
+  let region = config.region || 'auto';
+  let learnedRegion: string | undefined;
+  const preferPathStyle = config.usePathStyle ?? true;
+  // Only what the server confirmed; a region it didn't name is left unset
+  const found = (usePathStyle: boolean): S3Addressing => ({
+    endpoint,
+    usePathStyle,
+    ...(learnedRegion ? { region: learnedRegion } : {}),
+  });
+
+  for (const usePathStyle of [preferPathStyle, !preferPathStyle]) {
+    // A second round after learning the region
+    for (let round = 0; round < 2; round++) {
+      const backend = new S3Backend({ ...config, endpoint, region, usePathStyle }, { retry: { maxRetries: 0 } });
+
+      let response: Response;
+      try {
+        response = await backend.probe(signal);
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        break; // Unreachable this way (DNS, TLS or CORS)
+      }
+
+      if (response.ok) {
+        return found(usePathStyle);
+      }
+
+      if (response.status === 301 || response.status === 400) {
+        const bucketRegion = await bucketRegionFrom(response);
+        if (bucketRegion && bucketRegion !== region) {
+          region = learnedRegion = bucketRegion;
+          endpoint = regionalEndpoint(endpoint, region);
+          continue;
+        }
+      }
+
+      // Anything but "no such bucket here" means the bucket was found
+      // (e.g. 403 - the credentials are the problem, not the addressing)
+      if (response.status !== 301 && response.status !== 404 && response.status !== 400) {
+        return found(usePathStyle);
+      }
+      break;
+    }
+  }
+
+  return null;
+}
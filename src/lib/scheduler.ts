@@ -0,0 +1,122 @@
+/**
+ * Request Scheduler
+ *
+ * Caps the number of backend requests in flight and hands free slots to the
+ * most urgent waiting request first, so that navigating the file tree isn't
+ * stuck behind an index load or a large download.
+ */
+
+import type { Backend, FileInfo, FileType, RequestOptions, RequestPriority } from './backend';
+
+// Browsers allow ~6 connections per host over HTTP/1.1; HTTP/2 hosts multiplex more
+export const DEFAULT_MAX_IN_FLIGHT = 8;
+
+// Lanes in the order they are served
+const PRIORITIES: RequestPriority[] = ['interactive', 'normal', 'background'];
+
+interface QueuedTask {
+  start: () => void;
+}
+
+export class RequestScheduler {
+  private maxInFlight: number;
+  private inFlight = 0;
+  private queues: Record<RequestPriority, QueuedTask[]> = {
+    interactive: [],
+    normal: [],
+    background: [],
+  };
+
+  constructor(maxInFlight: number = DEFAULT_MAX_IN_FLIGHT) {
+    this.maxInFlight = Math.max(1, maxInFlight);
+  }
+
+  /**
+   * Number of requests waiting for a free slot
+   */
+  get pending(): number {
+    return PRIORITIES.reduce((sum, priority) => sum + this.queues[priority].length, 0);
+  }
+
+  /**
+   * Run `task` once a slot is free, ahead of any lower-priority waiters.
+   * Aborting `signal` while the task is still queued drops it from the queue.
+   */
+  run<T>(priority: RequestPriority, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const queue = this.queues[priority];
+      const onAbort = () => {
+        queue.splice(queue.indexOf(queued), 1);
+        reject(signal!.reason);
+      };
+      const queued: QueuedTask = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          task().then(resolve, reject).finally(() => {
+            this.inFlight--;
+            this.next();
+          });
+        },
+      };
+
+      queue.push(queued);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.next();
+    });
+  }
+
+  private next(): void {
+    while (this.inFlight < this.maxInFlight) {
+      const lane = PRIORITIES.find((priority) => this.queues[priority].length > 0);
+      if (!lane) return;
+      this.inFlight++;
+      this.queues[lane].shift()!.start();
+    }
+  }
+}
+
+/**
+ * Backend wrapper that routes every request through a scheduler
+ */
+export class ScheduledBackend implements Backend {
+  private backend: Backend;
+  private scheduler: RequestScheduler;
+
+  constructor(backend: Backend, scheduler: RequestScheduler) {
+    this.backend = backend;
+    this.scheduler = scheduler;
+  }
+
+  private schedule<T>(options: RequestOptions, task: () => Promise<T>): Promise<T> {
+    return this.scheduler.run(options.priority ?? 'normal', task, options.signal);
+  }
+
+  location(): string {
+    return this.backend.location();
+  }
+
+  load(fileType: FileType, name: string, options: RequestOptions = {}): Promise<Uint8Array> {
+    return this.schedule(options, () => this.backend.load(fileType, name, options));
+  }
+
+  loadPartial(fileType: FileType, name: string, offset: number, length: number, options: RequestOptions = {}): Promise<Uint8Array> {
+    return this.schedule(options, () => this.backend.loadPartial(fileType, name, offset, length, options));
+  }
+
+  list(fileType: FileType, options: RequestOptions = {}): Promise<FileInfo[]> {
+    return this.schedule(options, () => this.backend.list(fileType, options));
+  }
+
+  exists(fileType: FileType, name: string, options: RequestOptions = {}): Promise<boolean> {
+    return this.schedule(options, () => this.backend.exists(fileType, name, options));
+  }
+
+  getSize(fileType: FileType, name: string, options: RequestOptions = {}): Promise<number> {
+    return this.schedule(options, () => this.backend.getSize(fileType, name, options));
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Static HTTP Backend for Restic
+ *
+ * Reads a repository copied to any static web host (GitHub Pages, nginx, a CDN).
+ * Static hosts can't list directories, so listings come from pre-generated
+ * manifests in _manifest/ (see scripts/generate-manifests.sh):
+ *
+ * - _manifest/<type>.xml  - S3 ListBucketResult with one <Contents> per file
+ * - _manifest/<type>.json - ["<name>", ...] or [{"name": "<name>", "size": <bytes>}, ...]
+ */
+
+import type { StaticConfig } from './types';
+import {
+  type Backend,
+  type BackendOptions,
+  type FileInfo,
+  type FileType,
+  type RequestOptions,
+  getSubdir,
+  getFilePath,
+  isAbortError,
+} from './backend';
+import { parseS3Contents } from './s3';
+import { HttpClient } from './http';
+
+type ManifestFormat = 'xml' | 'json';
+
+export class StaticBackend implements Backend {
+  private baseUrl: string;
+  // Format of the manifests found on the first successful listing
+  private manifestFormat: ManifestFormat | null = null;
+  private http: HttpClient;
+
+  constructor(config: StaticConfig, options: BackendOptions = {}) {
+    this.http = new HttpClient(undefined, options);
+    this.baseUrl = config.url.replace(/\/+$/, '');
+  }
+
+  private getUrl(path: string): string {
+    return `${this.baseUrl}/${path}`;
+  }
+
+  private async request(url: string, description: string, init: RequestInit = {}): Promise<Response> {
+    let response: Response;
+    try {
+      response = await this.http.send(url, init);
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      const error = err as Error;
+      let hint = '';
+      if (error.message.includes('Failed to fetch')) {
+        const isCrossOrigin = !url.startsWith(window.location.origin);
+        hint = '\n\nThe browser blocked this request before receiving a response.';
+        if (isCrossOrigin) {
+          hint += '\n\nThis is likely a CORS issue. The web server must allow GET and HEAD with the range header from: ' + window.location.origin;
+        }
+        hint += '\n\n→ Check browser DevTools (F12) → Network tab for details';
+      }
+      throw new Error(`Network error ${description}\nURL: ${url}\nError: ${error.message}${hint}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Failed ${description}\nHTTP ${response.status} ${response.statusText}\nURL: ${url}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Human-readable description of the base URL
+   */
+  location(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Load a file from the repository
+   */
+  async load(fileType: FileType, name: string, options: RequestOptions = {}): Promise<Uint8Array> {
+    const url = this.getUrl(getFilePath(fileType, name));
+    const response = await this.request(url, `loading ${fileType}/${name}`, { signal: options.signal });
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  /**
+   * Load partial content from a file
+   */
+  async loadPartial(
+    fileType: FileType,
+    name: string,
+    offset: number,
+    length: number,
+    options: RequestOptions = {}
+  ): Promise<Uint8Array> {
+    const url = this.getUrl(getFilePath(fileType, name));
+    const end = offset + length - 1;
+    const response = await this.request(url, `loading ${fileType}/${name} (range ${offset}-${end})`, {
+      headers: { Range: `bytes=${offset}-${end}` },
+      signal: options.signal,
+    });
+
+    const data = new Uint8Array(await response.arrayBuffer());
+    // Some static hosts ignore Range and send the whole file
+    if (response.status === 200 && data.length > length) {
+      return data.slice(offset, offset + length);
+    }
+    return data;
+  }
+
+  /**
+   * List files of a specific type from its manifest
+   */
+  async list(fileType: FileType, options: RequestOptions = {}): Promise<FileInfo[]> {
+    const type = getSubdir(fileType);
+    const formats: ManifestFormat[] = this.manifestFormat ? [this.manifestFormat] : ['xml', 'json'];
+
+    for (const format of formats) {
+      const url = this.getUrl(`_manifest/${type}.${format}`);
+      let response: Response;
+      try {
+        response = await this.http.send(url, { signal: options.signal });
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        continue;
+      }
+      if (!response.ok) {
+        continue;
+      }
+
+      const text = await response.text();
+      const files = format === 'xml'
+        ? parseS3Contents(new DOMParser().parseFromString(text, 'text/xml'))
+        : parseJsonManifest(text);
+      this.manifestFormat = format;
+      return files;
+    }
+
+    throw new Error(`No manifest found for ${fileType}\nURL: ${this.getUrl(`_manifest/${type}.xml`)} (or .json)\n\nStatic hosts can't list directories. Generate manifests with:\n./scripts/generate-manifests.sh <repo-dir>`);
+  }
+
+  /**
+   * Check if a file exists
+   */
+  async exists(fileType: FileType, name: string, options: RequestOptions = {}): Promise<boolean> {
+    try {
+      const response = await this.http.send(this.getUrl(getFilePath(fileType, name)), { method: 'HEAD', signal: options.signal });
+      return response.ok;
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      return false;
+    }
+  }
+
+  /**
+   * Get file size
+   */
+  async getSize(fileType: FileType, name: string, options: RequestOptions = {}): Promise<number> {
+    const url = this.getUrl(getFilePath(fileType, name));
+    const response = await this.request(url, `getting size of ${fileType}/${name}`, { method: 'HEAD', signal: options.signal });
+    return parseInt(response.headers.get('Content-Length') || '0', 10);
+  }
+}
+
+/**
+ * Extract files from a JSON manifest
+ */
+function parseJsonManifest(text: string): FileInfo[] {
+  const entries = JSON.parse(text) as (string | { name: string; size?: number })[];
+  return entries.map((entry) => typeof entry === 'string' ? { name: entry } : { name: entry.name, size: entry.size });
+}
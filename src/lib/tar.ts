@@ -0,0 +1,285 @@
+/**
+ * Streaming Tar Writer
+ *
+ * Writes entries the way `restic dump` does (Go's archive/tar in PAX
+ * format): a ustar header per entry, preceded by a PAX extended header for
+ * whatever ustar can't hold - access/change times, sub-second mtimes, long
+ * or non-ASCII names, large IDs and sizes, and extended attributes.
+ */
+
+import type { ArchiveEntry } from './archive';
+
+const BLOCK_SIZE = 512;
+
+const TYPE_FILE = '0';
+const TYPE_SYMLINK = '2';
+const TYPE_CHARDEV = '3';
+const TYPE_BLOCKDEV = '4';
+const TYPE_DIR = '5';
+const TYPE_FIFO = '6';
+const TYPE_PAX = 'x';
+
+const TYPE_FLAGS: Record<ArchiveEntry['type'], string> = {
+  file: TYPE_FILE,
+  symlink: TYPE_SYMLINK,
+  chardev: TYPE_CHARDEV,
+  blockdev: TYPE_BLOCKDEV,
+  directory: TYPE_DIR,
+  fifo: TYPE_FIFO,
+};
+
+// ustar field sizes
+const NAME_SIZE = 100;
+const USER_SIZE = 32;
+
+const encoder = new TextEncoder();
+
+/**
+ * ustar header fields as Go fills them in for a PAX archive
+ */
+interface HeaderFields {
+  name: string;
+  mode: number;
+  uid: number;
+  gid: number;
+  size: number;
+  mtime: number;
+  type: string;
+  linkname?: string;
+  uname?: string;
+  gname?: string;
+  devMajor?: number;
+  devMinor?: number;
+}
+
+function isAscii(value: string): boolean {
+  return /^[\x00-\x7f]*$/.test(value);
+}
+
+/**
+ * Largest value an octal field of `size` bytes holds (one byte is the NUL)
+ */
+function octalMax(size: number): number {
+  return 8 ** (size - 1) - 1;
+}
+
+/**
+ * Build a 512-byte ustar header. Values that don't fit are left as zero
+ * (or truncated, for strings); the PAX header carries the real ones.
+ */
+function ustarHeader(fields: HeaderFields): Uint8Array {
+  const block = new Uint8Array(BLOCK_SIZE);
+
+  const string = (offset: number, size: number, value = '') => {
+    // Go keeps only the ASCII characters
+    const bytes = encoder.encode(value.replace(/[^\x00-\x7f]/g, ''));
+    block.set(bytes.subarray(0, size), offset);
+  };
+  const octal = (offset: number, size: number, value = 0) => {
+    const fits = Number.isSafeInteger(value) && value >= 0 && value <= octalMax(size);
+    string(offset, size, (fits ? value : 0).toString(8).padStart(size - 1, '0'));
+  };
+
+  string(0, NAME_SIZE, fields.name);
+  octal(100, 8, fields.mode);
+  octal(108, 8, fields.uid);
+  octal(116, 8, fields.gid);
+  octal(124, 12, fields.size);
+  octal(136, 12, fields.mtime);
+  string(156, 1, fields.type);
+  string(157, NAME_SIZE, fields.linkname);
+  string(257, 8, 'ustar\x0000');
+  string(265, USER_SIZE, fields.uname);
+  string(297, USER_SIZE, fields.gname);
+  if (fields.devMajor !== undefined || fields.devMinor !== undefined) {
+    octal(329, 8, fields.devMajor);
+    octal(337, 8, fields.devMinor);
+  }
+
+  // Checksum: sum of all bytes with the checksum field taken as spaces
+  block.fill(0x20, 148, 156);
+  const checksum = block.reduce((sum, byte) => sum + byte, 0);
+  string(148, 7, checksum.toString(8).padStart(6, '0'));
+  block[155] = 0x20;
+  return block;
+}
+
+/**
+ * PAX time: seconds since the epoch with up to nine fraction digits, keeping
+ * the nanoseconds that restic stores (Date only has milliseconds)
+ */
+function paxTime(rfc3339: string): { seconds: number; text: string } | null {
+  const match = rfc3339.match(/^(.*T\d{2}:\d{2}:\d{2})(?:\.(\d+))?(.*)$/);
+  if (!match) return null;
+  const ms = Date.parse(match[1] + match[3]);
+  if (isNaN(ms)) return null;
+  let seconds = Math.floor(ms / 1000);
+  let nanos = Number((match[2] ?? '').slice(0, 9).padEnd(9, '0'));
+  if (nanos === 0) return { seconds, text: String(seconds) };
+
+  // Negative times count the fraction towards zero, as in Go
+  let sign = '';
+  let whole = seconds;
+  if (whole < 0) {
+    sign = '-';
+    whole = -(whole + 1);
+    nanos = 1e9 - nanos;
+  }
+  const text = `${sign}${whole}.${String(nanos).padStart(9, '0')}`.replace(/0+$/, '');
+  return { seconds, text };
+}
+
+/**
+ * Encode PAX records ("<length> <key>=<value>\n", the length counting itself),
+ * sorted by key like Go does
+ */
+function paxRecords(records: Map<string, Uint8Array>): Uint8Array {
+  const parts: Uint8Array[] = [];
+  for (const key of [...records.keys()].sort()) {
+    const value = records.get(key)!;
+    const body = encoder.encode(` ${key}=`).length + value.length + 1;
+    let length = body + String(body).length;
+    if (String(length).length !== String(body).length) length = body + String(length).length;
+    const record = new Uint8Array(length);
+    record.set(encoder.encode(`${length} ${key}=`));
+    record.set(value, length - value.length - 1);
+    record[length - 1] = 0x0a;
+    parts.push(record);
+  }
+  return concat(parts);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function padding(size: number): Uint8Array {
+  return new Uint8Array((BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE);
+}
+
+/**
+ * Headers (PAX extended header, if needed, then ustar) for one entry
+ */
+function entryHeaders(entry: ArchiveEntry, size: number): Uint8Array {
+  const name = entry.type === 'directory' ? `${entry.path}/` : entry.path;
+  const records = new Map<string, Uint8Array>();
+  const text = (key: string, value: string) => records.set(key, encoder.encode(value));
+
+  if (encoder.encode(name).length > NAME_SIZE || !isAscii(name)) text('path', name);
+  if (entry.linkTarget && (encoder.encode(entry.linkTarget).length > NAME_SIZE || !isAscii(entry.linkTarget))) {
+    text('linkpath', entry.linkTarget);
+  }
+  for (const [key, value] of [['uname', entry.user], ['gname', entry.group]] as const) {
+    if (value && (encoder.encode(value).length > USER_SIZE || !isAscii(value))) text(key, value);
+  }
+  for (const [key, value] of [['uid', entry.uid], ['gid', entry.gid]] as const) {
+    if (value !== undefined && value > octalMax(8)) text(key, String(value));
+  }
+  if (size > octalMax(12)) text('size', String(size));
+
+  const mtime = entry.mtime ? paxTime(entry.mtime) : null;
+  if (mtime && (mtime.text.includes('.') || mtime.seconds < 0 || mtime.seconds > octalMax(12))) {
+    text('mtime', mtime.text);
+  }
+  for (const key of ['atime', 'ctime'] as const) {
+    const time = entry[key] ? paxTime(entry[key]!) : null;
+    if (time) text(key, time.text);
+  }
+  for (const { name: attribute, value } of entry.xattrs ?? []) {
+    records.set(`SCHILY.xattr.${attribute}`, value);
+  }
+
+  const ustar = ustarHeader({
+    name,
+    mode: entry.mode ?? 0,
+    uid: entry.uid ?? 0,
+    gid: entry.gid ?? 0,
+    size,
+    mtime: mtime?.seconds ?? 0,
+    type: TYPE_FLAGS[entry.type],
+    linkname: entry.linkTarget,
+    uname: entry.user,
+    gname: entry.group,
+    devMajor: entry.devMajor,
+    devMinor: entry.devMinor,
+  });
+  if (records.size === 0) {
+    return ustar;
+  }
+
+  const data = paxRecords(records);
+  const slash = name.replace(/\/$/, '').lastIndexOf('/');
+  const paxName = `${name.slice(0, slash + 1)}PaxHeaders.0/${name.slice(slash + 1)}`
+    .replace(/[^\x00-\x7f]/g, '')
+    .slice(0, NAME_SIZE)
+    .replace(/\/+$/, '');
+  const paxHeader = ustarHeader({ name: paxName, mode: 0, uid: 0, gid: 0, size: data.length, mtime: 0, type: TYPE_PAX });
+  return concat([paxHeader, data, padding(data.length), ustar]);
+}
+
+/**
+ * Generate the archive's bytes for a sequence of entries
+ */
+async function* writeTar(entries: AsyncIterable<ArchiveEntry>): AsyncGenerator<Uint8Array> {
+  for await (const entry of entries) {
+    const size = entry.type === 'file' ? entry.size ?? 0 : 0;
+    yield entryHeaders(entry, size);
+    if (entry.type !== 'file' || !entry.data) continue;
+
+    let written = 0;
+    const reader = entry.data().getReader();
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        written += value.length;
+        if (written > size) {
+          throw new Error(`${entry.path} is larger than its recorded size`);
+        }
+        yield value;
+      }
+    } finally {
+      // Stops loading if the archive is cancelled mid-file
+      void reader.cancel().catch(() => {});
+    }
+    if (written !== size) {
+      throw new Error(`${entry.path} is smaller than its recorded size`);
+    }
+    const pad = padding(size);
+    if (pad.length > 0) yield pad;
+  }
+
+  // End of archive: two zero blocks
+  yield new Uint8Array(BLOCK_SIZE * 2);
+}
+
+/**
+ * Stream a tar archive of `entries`, optionally gzip-compressed. Entries are
+ * pulled only as the archive is read; cancelling the stream stops them.
+ */
+export function createTarStream(entries: AsyncIterable<ArchiveEntry>, gzip = false): ReadableStream<Uint8Array> {
+  const chunks = writeTar(entries);
+  const tar = new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      const { done, value } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel: async () => {
+      await chunks.return(undefined);
+    },
+  }, { highWaterMark: 0 });
+  if (!gzip) return tar;
+  // The DOM typings only accept ArrayBuffer-backed chunks; any view works
+  const compress = new CompressionStream('gzip') as TransformStream<Uint8Array, Uint8Array>;
+  return tar.pipeThrough(compress);
+}
@@ -1,5 +1,7 @@
 // Restic Types
 
+import type { LocalDirectory } from './local';
+
 // ID is a 32-byte SHA-256 hash
 export type ID = Uint8Array;
 
@@ -146,15 +148,22 @@ export interface Node {
   group?: string;
   inode?: number;
   device_id?: number;
+  device?: number; // Device number of block and character devices (rdev)
   size?: number;
   links?: number;
   linktarget?: string;
   linktarget_raw?: string; // base64
   content?: string[]; // array of blob IDs as hex strings
   subtree?: string; // tree blob ID as hex string
+  extended_attributes?: ExtendedAttribute[];
   error?: string;
 }
 
+export interface ExtendedAttribute {
+  name: string;
+  value: string; // base64
+}
+
 export interface Tree {
   nodes: Node[];
 }
@@ -164,8 +173,85 @@ export interface S3Config {
   endpoint: string;
   bucket: string;
   prefix?: string;
-  accessKeyId: string;
+  accessKeyId: string;      // Empty for anonymous access
   secretAccessKey: string;
+  sessionToken?: string;    // Temporary credentials (STS / SSO / AssumeRole), sent as x-amz-security-token
+  expiresAt?: number;       // When temporary credentials expire (ms since epoch)
   region?: string;  // Optional - defaults to 'auto' which works for most S3-compatible services
   usePathStyle?: boolean;
+  anonymous?: boolean;      // Send unsigned requests (public buckets)
+}
+
+// Signing credentials that can be replaced mid-session
+export type S3Credentials = Pick<S3Config, 'accessKeyId' | 'secretAccessKey' | 'sessionToken' | 'expiresAt'>;
+
+// REST server backend config
+export interface RestConfig {
+  url: string;        // e.g. https://host:8000/repo (may embed user:pass@)
+  username?: string;  // HTTP basic auth
+  password?: string;
+}
+
+// Static HTTP backend config
+export interface StaticConfig {
+  url: string;  // Base URL of the repository copy, e.g. https://example.github.io/repo
+}
+
+// Azure Blob Storage backend config
+export interface AzureConfig {
+  accountName: string;
+  container: string;
+  prefix?: string;
+  sasToken?: string;    // Preferred - scoped and expiring (needs read + list)
+  accountKey?: string;  // Shared key (base64), used when no SAS token is given
+  endpoint?: string;    // Optional - defaults to https://<account>.blob.core.windows.net
+}
+
+// Google Cloud Storage backend config
+export interface GcsConfig {
+  bucket: string;
+  prefix?: string;
+  accessToken?: string;        // OAuth bearer token (e.g. gcloud auth print-access-token)
+  serviceAccountKey?: string;  // Service-account JSON key, used instead of accessToken if given
 }
+
+// Local folder backend config (folder access is granted per session)
+export interface LocalConfig {
+  root: LocalDirectory;
+}
+
+// Storage backend kinds
+export type BackendType = 's3' | 'rest' | 'local' | 'static' | 'azure' | 'gcs';
+
+export interface S3BackendConfig extends S3Config {
+  type: 's3';
+}
+
+export interface RestBackendConfig extends RestConfig {
+  type: 'rest';
+}
+
+export interface LocalBackendConfig extends LocalConfig {
+  type: 'local';
+}
+
+export interface StaticBackendConfig extends StaticConfig {
+  type: 'static';
+}
+
+export interface AzureBackendConfig extends AzureConfig {
+  type: 'azure';
+}
+
+export interface GcsBackendConfig extends GcsConfig {
+  type: 'gcs';
+}
+
+// Config for any storage backend, discriminated by `type`
+export type BackendConfig =
+  | S3BackendConfig
+  | RestBackendConfig
+  | LocalBackendConfig
+  | StaticBackendConfig
+  | AzureBackendConfig
+  | GcsBackendConfig;
@@ -0,0 +1,162 @@
+/**
+ * Decode Worker Pool
+ *
+ * Runs the decode pipeline (see decode.ts) on a small pool of Web Workers so
+ * that loading the index or a large file doesn't freeze the UI. Input and
+ * output buffers are transferred, not copied.
+ *
+ * The worker script URL comes from `<meta name="decode-worker">` in
+ * index.html. If workers are unavailable or the script fails to load, tasks
+ * run on the main thread instead.
+ */
+
+import { type DecodeRequest, type DecodeResult, runDecode } from './decode';
+import type { CryptoKey } from './crypto';
+
+const MAX_WORKERS = 4;
+
+// Messages exchanged with src/worker.ts
+export type WorkerMessage =
+  | { ready: true }
+  | { id: number; result: DecodeResult }
+  | { id: number; error: string }
+  | { id: number; progress: number } // Key derivation progress (see kdf.ts)
+  | { id: number; key: CryptoKey };
+
+interface Task {
+  id: number;
+  request: DecodeRequest;
+  resolve: (result: DecodeResult) => void;
+  reject: (err: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  ready: boolean;
+  task: Task | null;
+}
+
+/**
+ * Return `bytes` as an array that owns its whole buffer, copying if it is a
+ * view into a larger one, so the buffer can be transferred
+ */
+function ownBuffer(bytes: Uint8Array): Uint8Array {
+  if (bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength) {
+    return bytes;
+  }
+  return bytes.slice();
+}
+
+/**
+ * URL of the worker script, or null if workers can't be used here
+ */
+export function workerUrl(): string | null {
+  if (typeof Worker === 'undefined' || typeof document === 'undefined') {
+    return null;
+  }
+  const meta = document.querySelector<HTMLMetaElement>('meta[name="decode-worker"]');
+  return meta ? new URL(meta.content, document.baseURI).href : null;
+}
+
+export class DecodePool {
+  private size: number;
+  private url: string | null | undefined; // undefined until first use
+  private workers: PoolWorker[] = [];
+  private queue: Task[] = [];
+  private nextId = 0;
+
+  constructor(size: number = Math.min(MAX_WORKERS, Math.max(1, (navigator.hardwareConcurrency || 2) - 1))) {
+    this.size = size;
+  }
+
+  /**
+   * Run a decode request. The request's `data` buffer is transferred to the
+   * worker and must not be used by the caller afterwards.
+   */
+  run(request: DecodeRequest): Promise<DecodeResult> {
+    if (this.url === undefined) {
+      this.url = workerUrl();
+    }
+    if (!this.url) {
+      return runDecode(request);
+    }
+
+    return new Promise<DecodeResult>((resolve, reject) => {
+      this.queue.push({ id: this.nextId++, request: { ...request, data: ownBuffer(request.data) }, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const idle = this.workers.find((w) => w.ready && !w.task);
+      if (!idle) {
+        if (this.workers.length < this.size) {
+          this.spawn();
+        }
+        return;
+      }
+      const task = this.queue.shift()!;
+      idle.task = task;
+      idle.worker.postMessage({ id: task.id, request: task.request }, [task.request.data.buffer]);
+    }
+  }
+
+  private spawn(): void {
+    const entry: PoolWorker = { worker: new Worker(this.url!, { type: 'module' }), ready: false, task: null };
+    this.workers.push(entry);
+
+    entry.worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data;
+      if ('ready' in message) {
+        entry.ready = true;
+      } else {
+        const task = entry.task!;
+        entry.task = null;
+        if ('error' in message) {
+          task.reject(new Error(message.error));
+        } else if ('result' in message) {
+          task.resolve(message.result);
+        }
+      }
+      this.dispatch();
+    };
+
+    entry.worker.onerror = (event) => {
+      event.preventDefault();
+      if (!entry.ready) {
+        // The worker didn't start, so no data was sent to it. Carry on with
+        // the workers that did, or fall back to the main thread if none did.
+        entry.worker.terminate();
+        this.workers.splice(this.workers.indexOf(entry), 1);
+        this.size = Math.max(1, this.workers.length);
+        if (this.workers.length === 0) {
+          console.warn('Decode worker unavailable, decoding on the main thread:', event.message);
+          this.disable();
+        }
+        this.dispatch();
+        return;
+      }
+      // A crash after startup loses the task's transferred buffer; fail it and replace the worker
+      entry.worker.terminate();
+      this.workers.splice(this.workers.indexOf(entry), 1);
+      entry.task?.reject(new Error(`Decode worker failed: ${event.message}`));
+      this.dispatch();
+    };
+  }
+
+  /**
+   * Stop using workers and run everything queued on the main thread
+   */
+  private disable(): void {
+    this.url = null;
+    const queued = this.queue;
+    this.queue = [];
+    for (const task of queued) {
+      runDecode(task.request).then(task.resolve, task.reject);
+    }
+  }
+}
+
+// Shared by all repositories, so reconnecting doesn't spawn more workers
+export const decodePool = new DecodePool();
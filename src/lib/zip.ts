@@ -0,0 +1,328 @@
+/**
+ * Streaming ZIP Writer
+ *
+ * Produces a ZIP archive as a stream, one entry at a time, so archives of any
+ * size can be written with bounded memory: file contents are stored
+ * uncompressed (restic data is often already compressed) and their CRC-32 is
+ * written in a data descriptor after the data. ZIP64 records are used for
+ * files, offsets and entry counts that don't fit the classic format.
+ * Only the central directory (~100 bytes per entry) is kept until the end.
+ */
+
+import type { ArchiveEntry } from './archive';
+
+const LOCAL_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_HEADER = 0x02014b50;
+const ZIP64_END = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+const VERSION_DEFAULT = 20; // 2.0
+const VERSION_ZIP64 = 45; // 4.5
+const MADE_BY_UNIX = 3 << 8;
+
+const ZIP64_EXTRA = 0x0001;
+const TIMESTAMP_EXTRA = 0x5455; // Info-ZIP extended timestamp (UTC mtime)
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+// Unix file type bits for the external attributes
+const S_IFREG = 0o100000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+
+interface CentralRecord {
+  name: Uint8Array;
+  flags: number;
+  crc: number;
+  size: number;
+  offset: number;
+  dosTime: number;
+  dosDate: number;
+  mtime: number; // Unix seconds
+  attributes: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Update a running CRC-32 (start with 0)
+ */
+export function crc32(data: Uint8Array, crc = 0): number {
+  let c = crc ^ MAX_32;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ MAX_32) >>> 0;
+}
+
+/**
+ * Little-endian record builder
+ */
+class Record {
+  private view: DataView;
+  readonly bytes: Uint8Array;
+  private pos = 0;
+
+  constructor(length: number) {
+    this.bytes = new Uint8Array(length);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  u8(value: number): this {
+    this.view.setUint8(this.pos, value);
+    this.pos += 1;
+    return this;
+  }
+
+  u16(value: number): this {
+    this.view.setUint16(this.pos, value, true);
+    this.pos += 2;
+    return this;
+  }
+
+  u32(value: number): this {
+    this.view.setUint32(this.pos, value, true);
+    this.pos += 4;
+    return this;
+  }
+
+  u64(value: number): this {
+    this.view.setBigUint64(this.pos, BigInt(value), true);
+    this.pos += 8;
+    return this;
+  }
+
+  append(data: Uint8Array): this {
+    this.bytes.set(data, this.pos);
+    this.pos += data.length;
+    return this;
+  }
+}
+
+/**
+ * MS-DOS date and time (local time, 2-second resolution, 1980-2107)
+ */
+function dosDateTime(date: Date): { dosDate: number; dosTime: number } {
+  const year = date.getFullYear();
+  if (year < 1980) return { dosDate: (1 << 5) | 1, dosTime: 0 }; // 1980-01-01
+  return {
+    dosDate: (Math.min(year - 1980, 127) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  };
+}
+
+function timestampExtra(mtime: number): Uint8Array {
+  return new Record(9).u16(TIMESTAMP_EXTRA).u16(5).u8(1).u32(mtime).bytes;
+}
+
+function localHeader(record: CentralRecord, zip64: boolean, size: number): Uint8Array {
+  const streamed = (record.flags & FLAG_DATA_DESCRIPTOR) !== 0;
+  const extraLength = 9 + (zip64 ? 20 : 0);
+  const header = new Record(30 + record.name.length + extraLength)
+    .u32(LOCAL_HEADER)
+    .u16(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT)
+    .u16(record.flags)
+    .u16(0) // Stored
+    .u16(record.dosTime)
+    .u16(record.dosDate)
+    .u32(streamed ? 0 : record.crc)
+    .u32(zip64 ? MAX_32 : streamed ? 0 : size)
+    .u32(zip64 ? MAX_32 : streamed ? 0 : size)
+    .u16(record.name.length)
+    .u16(extraLength)
+    .append(record.name)
+    .append(timestampExtra(record.mtime));
+  if (zip64) {
+    // Sizes follow in the data descriptor when streamed
+    header.u16(ZIP64_EXTRA).u16(16).u64(streamed ? 0 : size).u64(streamed ? 0 : size);
+  }
+  return header.bytes;
+}
+
+function dataDescriptor(crc: number, size: number, zip64: boolean): Uint8Array {
+  const descriptor = new Record(zip64 ? 24 : 16).u32(DATA_DESCRIPTOR).u32(crc);
+  return zip64 ? descriptor.u64(size).u64(size).bytes : descriptor.u32(size).u32(size).bytes;
+}
+
+function centralHeader(record: CentralRecord): Uint8Array {
+  // ZIP64 extra holds only the fields that overflow, in this order
+  const overflow = [record.size, record.size, record.offset].filter((value) => value >= MAX_32);
+  const zip64Length = overflow.length > 0 ? 4 + overflow.length * 8 : 0;
+  const extraLength = 9 + zip64Length;
+
+  const header = new Record(46 + record.name.length + extraLength)
+    .u32(CENTRAL_HEADER)
+    .u16(MADE_BY_UNIX | VERSION_ZIP64)
+    .u16(zip64Length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT)
+    .u16(record.flags)
+    .u16(0) // Stored
+    .u16(record.dosTime)
+    .u16(record.dosDate)
+    .u32(record.crc)
+    .u32(Math.min(record.size, MAX_32))
+    .u32(Math.min(record.size, MAX_32))
+    .u16(record.name.length)
+    .u16(extraLength)
+    .u16(0) // Comment length
+    .u16(0) // Disk number
+    .u16(0) // Internal attributes
+    .u32(record.attributes)
+    .u32(Math.min(record.offset, MAX_32))
+    .append(record.name)
+    .append(timestampExtra(record.mtime));
+  if (zip64Length > 0) {
+    header.u16(ZIP64_EXTRA).u16(zip64Length - 4);
+    for (const value of overflow) header.u64(value);
+  }
+  return header.bytes;
+}
+
+function endOfCentralDirectory(count: number, offset: number, size: number): Uint8Array[] {
+  const records: Uint8Array[] = [];
+  if (count >= MAX_16 || offset >= MAX_32 || size >= MAX_32) {
+    const zip64EndOffset = offset + size;
+    records.push(
+      new Record(56)
+        .u32(ZIP64_END)
+        .u64(44) // Size of the rest of this record
+        .u16(MADE_BY_UNIX | VERSION_ZIP64)
+        .u16(VERSION_ZIP64)
+        .u32(0) // This disk
+        .u32(0) // Disk with the central directory
+        .u64(count)
+        .u64(count)
+        .u64(size)
+        .u64(offset)
+        .bytes,
+      new Record(20).u32(ZIP64_LOCATOR).u32(0).u64(zip64EndOffset).u32(1).bytes
+    );
+  }
+  records.push(
+    new Record(22)
+      .u32(END_OF_CENTRAL_DIRECTORY)
+      .u16(0)
+      .u16(0)
+      .u16(Math.min(count, MAX_16))
+      .u16(Math.min(count, MAX_16))
+      .u32(Math.min(size, MAX_32))
+      .u32(Math.min(offset, MAX_32))
+      .u16(0) // Comment length
+      .bytes
+  );
+  return records;
+}
+
+/**
+ * Generate the archive's bytes for a sequence of entries
+ */
+async function* writeZip(entries: AsyncIterable<ArchiveEntry>): AsyncGenerator<Uint8Array> {
+  const encoder = new TextEncoder();
+  const central: CentralRecord[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    // Devices and FIFOs have no ZIP equivalent
+    if (entry.type !== 'file' && entry.type !== 'directory' && entry.type !== 'symlink') continue;
+
+    const parsed = entry.mtime ? new Date(entry.mtime) : null;
+    const mtime = parsed && !isNaN(parsed.getTime()) ? parsed : new Date();
+    const fileType = entry.type === 'directory' ? S_IFDIR : entry.type === 'symlink' ? S_IFLNK : S_IFREG;
+    const mode = entry.mode ?? (entry.type === 'directory' ? 0o755 : 0o644);
+    const record: CentralRecord = {
+      name: encoder.encode(entry.type === 'directory' ? `${entry.path}/` : entry.path),
+      flags: FLAG_UTF8,
+      crc: 0,
+      size: 0,
+      offset,
+      ...dosDateTime(mtime),
+      mtime: Math.max(0, Math.min(MAX_32, Math.floor(mtime.getTime() / 1000))),
+      attributes: (((fileType | (mode & 0o7777)) << 16) | (entry.type === 'directory' ? 0x10 : 0)) >>> 0,
+    };
+
+    if (entry.type === 'file' && entry.data) {
+      // Content is streamed; CRC and size follow in the data descriptor
+      const zip64 = entry.size === undefined || entry.size >= MAX_32;
+      record.flags |= FLAG_DATA_DESCRIPTOR;
+      const header = localHeader(record, zip64, 0);
+      yield header;
+      offset += header.length;
+
+      const reader = entry.data().getReader();
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          record.crc = crc32(value, record.crc);
+          record.size += value.length;
+          if (!zip64 && record.size >= MAX_32) {
+            throw new Error(`${entry.path} is larger than its recorded size`);
+          }
+          yield value;
+        }
+      } finally {
+        // Stops loading if the archive is cancelled mid-file
+        void reader.cancel().catch(() => {});
+      }
+      offset += record.size;
+
+      const descriptor = dataDescriptor(record.crc, record.size, zip64);
+      yield descriptor;
+      offset += descriptor.length;
+    } else {
+      // Directories, symlinks (stored as their target) and empty files
+      const data = entry.type === 'symlink' ? encoder.encode(entry.linkTarget ?? '') : new Uint8Array(0);
+      record.crc = crc32(data);
+      record.size = data.length;
+      const header = localHeader(record, false, data.length);
+      yield header;
+      if (data.length > 0) yield data;
+      offset += header.length + data.length;
+    }
+
+    central.push(record);
+  }
+
+  const centralOffset = offset;
+  for (const record of central) {
+    const header = centralHeader(record);
+    yield header;
+    offset += header.length;
+  }
+  yield* endOfCentralDirectory(central.length, centralOffset, offset - centralOffset);
+}
+
+/**
+ * Stream a ZIP archive of `entries`. Entries are pulled (and file contents
+ * opened) only as the archive is read; cancelling the stream stops them.
+ */
+export function createZipStream(entries: AsyncIterable<ArchiveEntry>): ReadableStream<Uint8Array> {
+  const chunks = writeZip(entries);
+  return new ReadableStream<Uint8Array>({
+    pull: async (controller) => {
+      const { done, value } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel: async () => {
+      await chunks.return(undefined);
+    },
+  }, { highWaterMark: 0 });
+}
@@ -5,20 +5,86 @@
 import { create } from 'zustand';
 import type { SnapshotWithId, Tree, Node } from '../lib/types';
 import { useConnectionStore } from './connectionStore';
+import { useSnapshotStore } from './snapshotStore';
+import { isAbortError } from '../lib/backend';
+import { PathNotFoundError } from '../lib/repository';
+import { diffDirectory, type DirectoryChanges } from '../lib/diff';
+import { saveStream } from '../lib/download';
+import { directoryEntries, createArchiveStream, type ArchiveFormat } from '../lib/archive';
+
+// Minimum time between download progress updates
+const PROGRESS_INTERVAL = 250;
+
+// In-flight work, aborted when superseded or when the browser is cleared
+let navigation: AbortController | null = null;
+let download: AbortController | null = null;
+let comparison: AbortController | null = null;
+
+/**
+ * Abort the previous tree load and start tracking a new one
+ */
+function startNavigation(): AbortSignal {
+  navigation?.abort();
+  comparison?.abort();
+  navigation = new AbortController();
+  return navigation.signal;
+}
+
+/**
+ * Snapshots to step through from `current`, oldest first; with `sameSource`,
+ * only those of the same host and paths
+ */
+export function snapshotTimeline(
+  snapshots: SnapshotWithId[],
+  current: SnapshotWithId,
+  sameSource: boolean
+): SnapshotWithId[] {
+  const source = (snapshot: SnapshotWithId) => `${snapshot.hostname}\0${[...snapshot.paths].sort().join('\0')}`;
+  return snapshots
+    .filter((snapshot) => !sameSource || source(snapshot) === source(current))
+    .sort((a, b) => Date.parse(a.time) - Date.parse(b.time));
+}
+
+/**
+ * Directory node for a snapshot's root, so it can be selected like any other
+ */
+export function snapshotRootNode(snapshot: SnapshotWithId): Node {
+  return {
+    name: `snapshot-${snapshot.id.substring(0, 8)}`,
+    type: 'dir',
+    mtime: snapshot.time,
+    subtree: snapshot.tree,
+  };
+}
+
+export interface DownloadProgress {
+  loaded: number;
+  total: number;
+  startedAt: number; // When data started flowing (after the save dialog)
+}
 
 interface BrowserState {
   currentSnapshot: SnapshotWithId | null;
   currentPath: string;
   currentTree: Tree | null;
   selectedNode: Node | null;
+  pathMissing: boolean; // currentPath isn't in currentSnapshot (after switching snapshots)
+  sameSource: boolean; // Step only through snapshots of the same host and paths
+  changes: (DirectoryChanges & { since: SnapshotWithId }) | null; // Current directory vs the previous snapshot
   isLoading: boolean;
   isDownloading: boolean;
+  downloadProgress: DownloadProgress | null;
   error: string | null;
 
-  selectSnapshot: (snapshot: SnapshotWithId) => Promise<void>;
+  selectSnapshot: (snapshot: SnapshotWithId, keepPath?: boolean) => Promise<void>; // Opens the root unless keepPath
+  stepSnapshot: (offset: number) => Promise<void>; // Move along the timeline, keeping the path
+  setSameSource: (sameSource: boolean) => void;
   navigateTo: (path: string) => Promise<void>;
   selectNode: (node: Node | null) => void;
-  downloadFile: () => Promise<void>;
+  revealPath: (snapshot: SnapshotWithId, path: string) => Promise<void>; // Open a path's directory and select it
+  downloadFile: (node?: Node) => Promise<void>; // The selected file by default
+  downloadDirectory: (format?: ArchiveFormat) => Promise<void>; // ZIP by default
+  cancelDownload: () => void;
   clear: () => void;
 }
 
@@ -27,32 +93,73 @@ export const useBrowserStore = create<BrowserState>((set, get) => ({
   currentPath: '/',
   currentTree: null,
   selectedNode: null,
+  pathMissing: false,
+  sameSource: false,
+  changes: null,
   isLoading: false,
   isDownloading: false,
+  downloadProgress: null,
   error: null,
 
-  selectSnapshot: async (snapshot) => {
+  selectSnapshot: async (snapshot, keepPath = false) => {
     const repo = useConnectionStore.getState().repo;
     if (!repo) return;
 
+    const { currentPath, currentTree, selectedNode } = get();
+    const path = keepPath ? currentPath : '/';
+    // A file selected in the directory stays selected, if it's still there
+    const selectedName = keepPath && selectedNode && currentTree?.nodes.includes(selectedNode) ? selectedNode.name : null;
     set({
       currentSnapshot: snapshot,
-      currentPath: '/',
+      currentPath: path,
       currentTree: null,
       selectedNode: null,
+      pathMissing: false,
+      changes: null,
       isLoading: true,
       error: null,
     });
 
+    const signal = startNavigation();
     try {
-      const result = await repo.browsePath(snapshot, '/');
-      set({ currentTree: result.tree, isLoading: false });
+      const result = await repo.browsePath(snapshot, path, signal);
+      if (signal.aborted) return;
+      if (result.node && result.node.type !== 'dir') {
+        set({ pathMissing: true, isLoading: false });
+        return;
+      }
+      set({
+        currentTree: result.tree,
+        selectedNode: result.tree.nodes.find((n) => n.name === selectedName) ?? result.node ?? snapshotRootNode(snapshot),
+        isLoading: false,
+      });
+      void loadChanges();
     } catch (err) {
+      if (isAbortError(err)) return;
+      if (err instanceof PathNotFoundError) {
+        set({ pathMissing: true, isLoading: false });
+        return;
+      }
       const error = err as Error;
       set({ error: error.message, isLoading: false });
     }
   },
 
+  stepSnapshot: async (offset) => {
+    const { currentSnapshot, sameSource } = get();
+    if (!currentSnapshot) return;
+
+    const timeline = snapshotTimeline(useSnapshotStore.getState().snapshots, currentSnapshot, sameSource);
+    const index = timeline.findIndex((snapshot) => snapshot.id === currentSnapshot.id);
+    const next = index >= 0 ? timeline[index + offset] : undefined;
+    if (next) await get().selectSnapshot(next, true);
+  },
+
+  setSameSource: (sameSource) => {
+    set({ sameSource, changes: null });
+    if (get().currentTree && !get().isLoading) void loadChanges();
+  },
+
   navigateTo: async (path) => {
     const repo = useConnectionStore.getState().repo;
     const { currentSnapshot } = get();
@@ -61,14 +168,25 @@ export const useBrowserStore = create<BrowserState>((set, get) => ({
     set({
       currentPath: path,
       selectedNode: null,
+      pathMissing: false,
+      changes: null,
       isLoading: true,
       error: null,
     });
 
+    const signal = startNavigation();
     try {
-      const result = await repo.browsePath(currentSnapshot, path);
-      set({ currentTree: result.tree, isLoading: false });
+      const result = await repo.browsePath(currentSnapshot, path, signal);
+      if (signal.aborted) return;
+      // The directory itself is selected until a file in it is
+      set({
+        currentTree: result.tree,
+        selectedNode: result.node ?? snapshotRootNode(currentSnapshot),
+        isLoading: false,
+      });
+      void loadChanges();
     } catch (err) {
+      if (isAbortError(err)) return;
       const error = err as Error;
       set({ error: error.message, isLoading: false });
     }
@@ -78,43 +196,178 @@ export const useBrowserStore = create<BrowserState>((set, get) => ({
     set({ selectedNode: node });
   },
 
-  downloadFile: async () => {
-    const repo = useConnectionStore.getState().repo;
-    const { selectedNode } = get();
-    
-    if (!repo || !selectedNode || selectedNode.type !== 'file') return;
+  revealPath: async (snapshot, path) => {
+    const slash = path.lastIndexOf('/');
+    const parent = path.slice(0, slash) || '/';
+    const name = path.slice(slash + 1);
 
-    set({ isDownloading: true });
+    set({ currentSnapshot: snapshot });
+    await get().navigateTo(parent);
+    const node = get().currentTree?.nodes.find((n) => n.name === name);
+    if (!node || get().currentPath !== parent) return;
 
-    try {
-      const data = await repo.downloadFile(selectedNode);
-      
-      // Create download link
-      const blob = new Blob([data.buffer]);
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = selectedNode.name;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-
-      set({ isDownloading: false });
-    } catch (err) {
-      const error = err as Error;
-      set({ isDownloading: false, error: error.message });
-      throw error; // Re-throw for UI to handle
+    if (node.type === 'dir') {
+      await get().navigateTo(path);
+    } else {
+      set({ selectedNode: node });
     }
   },
 
+  downloadFile: async (node = get().selectedNode ?? undefined) => {
+    const repo = useConnectionStore.getState().repo;
+
+    if (!repo || !node || node.type !== 'file') return;
+
+    await runDownload(node.name, node.size, (signal, progress) => {
+      progress.setTotal(node.size ?? 0);
+      return repo.openFileStream(node, signal).pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform: (chunk, stream) => {
+            progress.add(chunk.length);
+            stream.enqueue(chunk);
+          },
+        })
+      );
+    });
+  },
+
+  downloadDirectory: async (format = 'zip') => {
+    const repo = useConnectionStore.getState().repo;
+    const { selectedNode, currentPath } = get();
+
+    if (!repo || !selectedNode || selectedNode.type !== 'dir') return;
+
+    // Tar archives match `restic dump`: the directory's contents, named by
+    // their path from the snapshot root. ZIPs hold the directory itself.
+    const layout = format === 'zip'
+      ? {}
+      : { basePath: currentPath.replace(/^\/+|\/+$/g, ''), includeDir: false };
+
+    await runDownload(`${selectedNode.name}.${format}`, undefined, (signal, progress) =>
+      createArchiveStream(format, directoryEntries(repo, selectedNode, {
+        ...layout,
+        signal,
+        onTotal: progress.setTotal,
+        onProgress: progress.add,
+      }))
+    );
+  },
+
+  cancelDownload: () => {
+    download?.abort();
+  },
+
   clear: () => {
+    navigation?.abort();
+    download?.abort();
+    comparison?.abort();
     set({
       currentSnapshot: null,
       currentPath: '/',
       currentTree: null,
       selectedNode: null,
+      pathMissing: false,
+      changes: null,
       error: null,
     });
   },
 }));
+
+/**
+ * Compare the current directory with the same path in the previous snapshot
+ * of the timeline, to highlight what changed. Best effort: failures just
+ * leave the listing unmarked.
+ */
+async function loadChanges(): Promise<void> {
+  const repo = useConnectionStore.getState().repo;
+  const { currentSnapshot, currentPath, currentTree, sameSource } = useBrowserStore.getState();
+  if (!repo || !currentSnapshot || !currentTree) return;
+
+  const timeline = snapshotTimeline(useSnapshotStore.getState().snapshots, currentSnapshot, sameSource);
+  const index = timeline.findIndex((snapshot) => snapshot.id === currentSnapshot.id);
+  const since = index > 0 ? timeline[index - 1] : undefined;
+  if (!since) return;
+
+  comparison?.abort();
+  const controller = new AbortController();
+  comparison = controller;
+  try {
+    let before: Node[] = []; // Everything is new if the path wasn't there
+    try {
+      const result = await repo.browsePath(since, currentPath, controller.signal);
+      if (!result.node || result.node.type === 'dir') before = result.tree.nodes;
+    } catch (err) {
+      if (!(err instanceof PathNotFoundError)) throw err;
+    }
+    if (controller.signal.aborted) return;
+    useBrowserStore.setState({ changes: { since, ...diffDirectory(before, currentTree.nodes) } });
+  } catch {
+    // Aborted, or the previous snapshot couldn't be read
+  } finally {
+    if (comparison === controller) comparison = null;
+  }
+}
+
+/**
+ * Progress of the current download, throttled to PROGRESS_INTERVAL
+ */
+interface ProgressTracker {
+  setTotal: (total: number) => void;
+  add: (bytes: number) => void;
+}
+
+/**
+ * Save a stream produced by `open` (called once the save destination is
+ * chosen), tracking progress in the store. Starting a download cancels the
+ * previous one.
+ */
+async function runDownload(
+  name: string,
+  size: number | undefined,
+  open: (signal: AbortSignal, progress: ProgressTracker) => ReadableStream<Uint8Array>
+): Promise<void> {
+  const set = useBrowserStore.setState;
+  set({ isDownloading: true });
+  download?.abort();
+  const controller = new AbortController();
+  download = controller;
+
+  const openTracked = () => {
+    const progress: DownloadProgress = { loaded: 0, total: 0, startedAt: Date.now() };
+    let lastUpdate = 0;
+    const update = (force: boolean) => {
+      const now = Date.now();
+      if ((force || now - lastUpdate >= PROGRESS_INTERVAL) && download === controller) {
+        lastUpdate = now;
+        set({ downloadProgress: { ...progress } });
+      }
+    };
+    update(true);
+    return open(controller.signal, {
+      setTotal: (total) => {
+        progress.total = total;
+        update(true);
+      },
+      add: (bytes) => {
+        progress.loaded += bytes;
+        update(false);
+      },
+    });
+  };
+
+  try {
+    await saveStream(name, size, openTracked, controller.signal);
+    set({ isDownloading: false, downloadProgress: null });
+  } catch (err) {
+    if (isAbortError(err)) {
+      // Cancelled by the user (or superseded by another download)
+      if (download === controller) set({ isDownloading: false, downloadProgress: null });
+      return;
+    }
+    const error = err as Error;
+    set({ isDownloading: false, downloadProgress: null, error: error.message });
+    throw error; // Re-throw for UI to handle
+  } finally {
+    if (download === controller) download = null;
+  }
+}
@@ -1,20 +1,99 @@
 /**
- * Connection Store - manages S3 connection form state and connection status
+ * Connection Store - manages backend connection form state and connection status
  */
 
 import { create } from 'zustand';
-import type { S3Config } from '../lib/types';
-import type { RepoConfig } from '../lib/config';
-import { Repository } from '../lib/repository';
+import type { BackendConfig, BackendType, S3Credentials } from '../lib/types';
+import {
+  type RepoConfig,
+  getRepoBackendType,
+  toBackendConfig,
+  isRepoConfigComplete,
+  saveDetectedS3Addressing,
+} from '../lib/config';
+import { type S3Addressing, detectS3Addressing } from '../lib/s3';
+import { createBackend } from '../lib/backends';
+import type { LocalDirectory } from '../lib/local';
+import { Repository, type UnlockProgress } from '../lib/repository';
+import { isAbortError } from '../lib/backend';
+
+// Connection attempt in progress, aborted on disconnect
+let connecting: AbortController | null = null;
+
+// Backend waiting for the user to enter fresh S3 credentials
+let credentialsRequest: ((credentials: S3Credentials | null) => void) | null = null;
+
+/**
+ * Convert between saved ISO times and <input type="datetime-local"> values
+ */
+function toLocalDateTime(iso: string | undefined): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromLocalDateTime(local: string): string | undefined {
+  const time = Date.parse(local); // Parsed as local time
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+// Text fields of the connection form
+export type FormField =
+  | 'endpoint'
+  | 'bucket'
+  | 'prefix'
+  | 'region'
+  | 'addressingStyle'
+  | 'accessKeyId'
+  | 'secretAccessKey'
+  | 'sessionToken'
+  | 'sessionExpiry'
+  | 'restUrl'
+  | 'restUsername'
+  | 'restPassword'
+  | 'staticUrl'
+  | 'azureAccount'
+  | 'azureContainer'
+  | 'azurePrefix'
+  | 'azureSasToken'
+  | 'azureAccountKey'
+  | 'azureEndpoint'
+  | 'gcsBucket'
+  | 'gcsPrefix'
+  | 'gcsAccessToken'
+  | 'gcsServiceAccountKey'
+  | 'password'
+  | 'configName';
 
 interface ConnectionState {
   // Form fields
+  backendType: BackendType;
   endpoint: string;
   bucket: string;
   prefix: string;
   region: string;
+  addressingStyle: '' | 'path' | 'virtual'; // '' = detect when connecting
   accessKeyId: string;
   secretAccessKey: string;
+  sessionToken: string;
+  sessionExpiry: string; // datetime-local value
+  anonymous: boolean;
+  restUrl: string;
+  restUsername: string;
+  restPassword: string;
+  staticUrl: string;
+  azureAccount: string;
+  azureContainer: string;
+  azurePrefix: string;
+  azureSasToken: string;
+  azureAccountKey: string;
+  azureEndpoint: string;
+  gcsBucket: string;
+  gcsPrefix: string;
+  gcsAccessToken: string;
+  gcsServiceAccountKey: string;
+  localRoot: LocalDirectory | null;
   password: string;
   configName: string;
 
@@ -23,25 +102,54 @@ interface ConnectionState {
   isConnected: boolean;
   error: string | null;
   repo: Repository | null;
+  retryCount: number; // Requests retried after transient errors since connecting
+  credentialsExpired: boolean; // Temporary S3 credentials ran out; requests wait for new ones
+  unlockProgress: UnlockProgress | null; // Key derivation progress while connecting
 
   // Actions
-  setField: (field: keyof Pick<ConnectionState, 'endpoint' | 'bucket' | 'prefix' | 'region' | 'accessKeyId' | 'secretAccessKey' | 'password' | 'configName'>, value: string) => void;
+  setField: (field: FormField, value: string) => void;
+  setBackendType: (backendType: BackendType) => void;
+  setAnonymous: (anonymous: boolean) => void;
+  setLocalRoot: (localRoot: LocalDirectory | null) => void;
   setError: (error: string | null) => void;
   connect: () => Promise<Repository | null>;
+  cancelConnect: () => void;
   disconnect: () => void;
+  renewCredentials: () => void;
+  cancelCredentialsRenewal: () => void;
   loadConfig: (config: RepoConfig) => void;
   getFormConfig: () => RepoConfig;
-  getS3Config: () => S3Config;
+  getBackendConfig: () => BackendConfig;
 }
 
 export const useConnectionStore = create<ConnectionState>((set, get) => ({
   // Initial form values
+  backendType: 's3',
   endpoint: '',
   bucket: '',
   prefix: '',
   region: '',
+  addressingStyle: '',
   accessKeyId: '',
   secretAccessKey: '',
+  sessionToken: '',
+  sessionExpiry: '',
+  anonymous: false,
+  restUrl: '',
+  restUsername: '',
+  restPassword: '',
+  staticUrl: '',
+  azureAccount: '',
+  azureContainer: '',
+  azurePrefix: '',
+  azureSasToken: '',
+  azureAccountKey: '',
+  azureEndpoint: '',
+  gcsBucket: '',
+  gcsPrefix: '',
+  gcsAccessToken: '',
+  gcsServiceAccountKey: '',
+  localRoot: null,
   password: '',
   configName: 'default',
 
@@ -50,90 +158,259 @@ export const useConnectionStore = create<ConnectionState>((set, get) => ({
   isConnected: false,
   error: null,
   repo: null,
+  retryCount: 0,
+  credentialsExpired: false,
+  unlockProgress: null,
 
   setField: (field, value) => set({ [field]: value }),
 
+  setBackendType: (backendType) => set({ backendType, error: null }),
+
+  setAnonymous: (anonymous) => set({ anonymous, error: null }),
+
+  setLocalRoot: (localRoot) => set({ localRoot, error: null }),
+
   setError: (error) => set({ error }),
 
   connect: async () => {
     const state = get();
-    const { endpoint, bucket, accessKeyId, secretAccessKey, password } = state;
 
-    if (!endpoint || !bucket || !accessKeyId || !secretAccessKey || !password) {
+    if (!isRepoConfigComplete(state.getFormConfig())) {
       set({ error: 'Please fill in all required fields' });
       return null;
     }
 
-    set({ isConnecting: true, error: null });
+    set({ isConnecting: true, error: null, retryCount: 0 });
+    connecting?.abort();
+    const controller = new AbortController();
+    connecting = controller;
 
     try {
-      const s3Config = state.getS3Config();
-      const repo = new Repository(s3Config);
-      await repo.open(password);
+      // Probe S3 region and addressing style the first time
+      let detected: S3Addressing | null = null;
+      if (state.backendType === 's3' && (!state.region || !state.addressingStyle)) {
+        const s3Config = state.getBackendConfig();
+        if (s3Config.type === 's3') {
+          detected = await detectS3Addressing(s3Config, controller.signal);
+        }
+        if (detected) {
+          set({
+            endpoint: detected.endpoint,
+            ...(detected.region ? { region: detected.region } : {}),
+            addressingStyle: detected.usePathStyle ? 'path' : 'virtual',
+          });
+        }
+      }
+
+      const backend = createBackend(get().getBackendConfig(), {
+        onRetry: () => set((s) => ({ retryCount: s.retryCount + 1 })),
+        onCredentialsExpired: () => new Promise((resolve) => {
+          credentialsRequest = resolve;
+          set({ credentialsExpired: true });
+        }),
+      });
+      const repo = new Repository(backend);
+      await repo.open(state.password, {
+        signal: controller.signal,
+        onProgress: (unlockProgress) => set({ unlockProgress }),
+      });
+      if (controller.signal.aborted) return null;
+
+      if (detected) {
+        saveDetectedS3Addressing(state.configName || 'default', detected);
+      }
 
       set({
         isConnecting: false,
         isConnected: true,
         repo,
         error: null,
+        unlockProgress: null,
       });
 
       return repo;
     } catch (err) {
+      if (isAbortError(err)) return null;
       const error = err as Error;
       set({
         isConnecting: false,
         error: error.message,
+        unlockProgress: null,
       });
       return null;
     }
   },
 
+  cancelConnect: () => {
+    connecting?.abort();
+    set({ isConnecting: false, unlockProgress: null });
+  },
+
   disconnect: () => {
+    connecting?.abort();
+    get().cancelCredentialsRenewal();
     set({
+      isConnecting: false,
       isConnected: false,
       repo: null,
       error: null,
+      retryCount: 0,
+      unlockProgress: null,
+    });
+  },
+
+  renewCredentials: () => {
+    const { accessKeyId, secretAccessKey, sessionToken, sessionExpiry } = get();
+    const expiry = fromLocalDateTime(sessionExpiry);
+    // An expiry already past (typically the old token's) is treated as
+    // unknown: the server's ExpiredToken answer is the check then
+    const expiresAt = expiry ? Date.parse(expiry) : NaN;
+    const isFuture = expiresAt > Date.now();
+    credentialsRequest?.({
+      accessKeyId,
+      secretAccessKey,
+      sessionToken: sessionToken || undefined,
+      expiresAt: isFuture ? expiresAt : undefined,
     });
+    credentialsRequest = null;
+    set({ credentialsExpired: false, ...(isFuture ? {} : { sessionExpiry: '' }) });
+  },
+
+  cancelCredentialsRenewal: () => {
+    credentialsRequest?.(null);
+    credentialsRequest = null;
+    set({ credentialsExpired: false });
   },
 
   loadConfig: (config) => {
-    set({
+    const common = {
       configName: config.name || 'default',
-      endpoint: config.endpoint || '',
-      bucket: config.bucket || '',
-      prefix: config.prefix || '',
-      region: config.region || '',
-      accessKeyId: config.accessKeyId || '',
-      secretAccessKey: config.secretAccessKey || '',
+      backendType: getRepoBackendType(config),
       password: config.password || '',
-    });
+    };
+
+    switch (config.type) {
+      case 'local':
+        set(common);
+        break;
+      case 'static':
+        set({ ...common, staticUrl: config.url || '' });
+        break;
+      case 'azure':
+        set({
+          ...common,
+          azureAccount: config.accountName || '',
+          azureContainer: config.container || '',
+          azurePrefix: config.prefix || '',
+          azureSasToken: config.sasToken || '',
+          azureAccountKey: config.accountKey || '',
+          azureEndpoint: config.endpoint || '',
+        });
+        break;
+      case 'gcs':
+        set({
+          ...common,
+          gcsBucket: config.bucket || '',
+          gcsPrefix: config.prefix || '',
+          gcsAccessToken: config.accessToken || '',
+          gcsServiceAccountKey: config.serviceAccountKey || '',
+        });
+        break;
+      case 'rest':
+        set({
+          ...common,
+          restUrl: config.url || '',
+          restUsername: config.username || '',
+          restPassword: config.httpPassword || '',
+        });
+        break;
+      case 's3':
+      case undefined:
+        set({
+          ...common,
+          endpoint: config.endpoint || '',
+          bucket: config.bucket || '',
+          prefix: config.prefix || '',
+          region: config.region || '',
+          addressingStyle: config.usePathStyle === undefined ? '' : config.usePathStyle ? 'path' : 'virtual',
+          accessKeyId: config.accessKeyId || '',
+          secretAccessKey: config.secretAccessKey || '',
+          sessionToken: config.sessionToken || '',
+          sessionExpiry: toLocalDateTime(config.sessionExpiry),
+          anonymous: config.anonymous || false,
+        });
+        break;
+    }
   },
 
   getFormConfig: () => {
     const state = get();
-    return {
+    const common = {
       name: state.configName || 'default',
-      endpoint: state.endpoint,
-      bucket: state.bucket,
-      prefix: state.prefix || undefined,
-      region: state.region || undefined,
-      accessKeyId: state.accessKeyId,
-      secretAccessKey: state.secretAccessKey,
       password: state.password,
-    } as RepoConfig;
+    };
+
+    switch (state.backendType) {
+      case 'local':
+        return {
+          ...common,
+          type: 'local',
+          folderName: state.localRoot?.name,
+        };
+      case 'static':
+        return {
+          ...common,
+          type: 'static',
+          url: state.staticUrl,
+        };
+      case 'azure':
+        return {
+          ...common,
+          type: 'azure',
+          accountName: state.azureAccount,
+          container: state.azureContainer,
+          prefix: state.azurePrefix || undefined,
+          sasToken: state.azureSasToken || undefined,
+          accountKey: state.azureAccountKey || undefined,
+          endpoint: state.azureEndpoint || undefined,
+        };
+      case 'gcs':
+        return {
+          ...common,
+          type: 'gcs',
+          bucket: state.gcsBucket,
+          prefix: state.gcsPrefix || undefined,
+          accessToken: state.gcsAccessToken || undefined,
+          serviceAccountKey: state.gcsServiceAccountKey || undefined,
+        };
+      case 'rest':
+        return {
+          ...common,
+          type: 'rest',
+          url: state.restUrl,
+          username: state.restUsername || undefined,
+          httpPassword: state.restPassword || undefined,
+        };
+      case 's3':
+        return {
+          ...common,
+          type: 's3',
+          endpoint: state.endpoint,
+          bucket: state.bucket,
+          prefix: state.prefix || undefined,
+          region: state.region || undefined,
+          usePathStyle: state.addressingStyle ? state.addressingStyle === 'path' : undefined,
+          accessKeyId: state.anonymous ? '' : state.accessKeyId,
+          secretAccessKey: state.anonymous ? '' : state.secretAccessKey,
+          sessionToken: !state.anonymous && state.sessionToken ? state.sessionToken : undefined,
+          sessionExpiry: !state.anonymous ? fromLocalDateTime(state.sessionExpiry) : undefined,
+          anonymous: state.anonymous || undefined,
+        };
+    }
   },
 
-  getS3Config: () => {
+  getBackendConfig: () => {
     const state = get();
-    return {
-      endpoint: state.endpoint,
-      bucket: state.bucket,
-      prefix: state.prefix || undefined,
-      region: state.region || undefined,
-      accessKeyId: state.accessKeyId,
-      secretAccessKey: state.secretAccessKey,
-      usePathStyle: true,
-    };
+    return toBackendConfig(state.getFormConfig(), state.localRoot);
   },
 }));
@@ -0,0 +1,102 @@
+/**
+ * Diff Store - manages comparing two snapshots
+ */
+
+import { create } from 'zustand';
+import type { SnapshotWithId } from '../lib/types';
+import { useConnectionStore } from './connectionStore';
+import { isAbortError } from '../lib/backend';
+import { diffSnapshots, summarizeDiff, type DiffEntry, type DiffKind, type DiffStats } from '../lib/diff';
+
+// Minimum time between updates of the entry list while comparing
+const UPDATE_INTERVAL = 250;
+
+const NO_COUNTS: Record<DiffKind, number> = { added: 0, removed: 0, modified: 0, metadata: 0 };
+
+// Comparison in progress, aborted when restarted or cleared
+let comparing: AbortController | null = null;
+
+interface DiffState {
+  from: SnapshotWithId | null; // Older snapshot
+  to: SnapshotWithId | null; // Newer snapshot
+  entries: DiffEntry[]; // Once the comparison is complete or stopped
+  batches: DiffEntry[][]; // Entries found so far, as published while comparing
+  counts: Record<DiffKind, number>; // Entries found so far, by kind
+  stats: DiffStats | null; // Once the comparison is complete
+  isComparing: boolean;
+  error: string | null;
+
+  compare: (a: SnapshotWithId, b: SnapshotWithId) => Promise<void>; // In either order
+  cancel: () => void;
+  clear: () => void;
+}
+
+export const useDiffStore = create<DiffState>((set) => ({
+  from: null,
+  to: null,
+  entries: [],
+  batches: [],
+  counts: NO_COUNTS,
+  stats: null,
+  isComparing: false,
+  error: null,
+
+  compare: async (a, b) => {
+    const repo = useConnectionStore.getState().repo;
+    if (!repo) return;
+
+    const [from, to] = Date.parse(a.time) <= Date.parse(b.time) ? [a, b] : [b, a];
+    comparing?.abort();
+    const controller = new AbortController();
+    comparing = controller;
+    set({ from, to, entries: [], batches: [], counts: NO_COUNTS, stats: null, isComparing: true, error: null });
+
+    // Each update publishes only the entries found since the previous one;
+    // the full list is put together once at the end
+    const batches: DiffEntry[][] = [];
+    const counts = { ...NO_COUNTS };
+    let batch: DiffEntry[] = [];
+    let lastUpdate = 0;
+    const flush = () => {
+      if (batch.length > 0) batches.push(batch);
+      batch = [];
+    };
+
+    try {
+      for await (const entry of diffSnapshots(repo, from, to, controller.signal)) {
+        batch.push(entry);
+        counts[entry.kind]++;
+        const now = Date.now();
+        if (now - lastUpdate >= UPDATE_INTERVAL) {
+          lastUpdate = now;
+          flush();
+          set({ batches: [...batches], counts: { ...counts } });
+        }
+      }
+      flush();
+      const entries = batches.flat();
+      set({ entries, batches: [], counts: { ...counts }, stats: summarizeDiff(entries), isComparing: false });
+    } catch (err) {
+      flush();
+      // Keep what was found before stopping or failing
+      const found = { entries: batches.flat(), batches: [], counts: { ...counts }, isComparing: false };
+      if (isAbortError(err)) {
+        if (comparing === controller) set(found);
+        return;
+      }
+      const error = err as Error;
+      set({ ...found, error: error.message });
+    } finally {
+      if (comparing === controller) comparing = null;
+    }
+  },
+
+  cancel: () => {
+    comparing?.abort();
+  },
+
+  clear: () => {
+    comparing?.abort();
+    set({ from: null, to: null, entries: [], batches: [], counts: NO_COUNTS, stats: null, isComparing: false, error: null });
+  },
+}));
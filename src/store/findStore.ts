@@ -0,0 +1,111 @@
+/**
+ * Find Store - manages searching snapshots for files
+ */
+
+import { create } from 'zustand';
+import type { SnapshotWithId } from '../lib/types';
+import { useConnectionStore } from './connectionStore';
+import { isAbortError } from '../lib/backend';
+import { findInSnapshots, compileQuery, type FindQuery, type FindMatch } from '../lib/find';
+
+// Minimum time between updates of the result list while searching
+const UPDATE_INTERVAL = 250;
+
+// Results kept before the search stops
+const MAX_RESULTS = 5000;
+
+// Search in progress, aborted when restarted, cancelled or cleared
+let searching: AbortController | null = null;
+
+interface FindState {
+  results: FindMatch[]; // Once the search is done or stopped
+  batches: FindMatch[][]; // Matches found so far, as published while searching
+  count: number; // Matches found so far
+  isSearching: boolean;
+  progress: { snapshot: number; snapshots: number } | null; // Snapshot being searched
+  truncated: boolean; // Stopped at MAX_RESULTS
+  error: string | null;
+
+  search: (query: FindQuery, snapshots: SnapshotWithId[]) => Promise<void>;
+  cancel: () => void;
+  clear: () => void;
+}
+
+export const useFindStore = create<FindState>((set) => ({
+  results: [],
+  batches: [],
+  count: 0,
+  isSearching: false,
+  progress: null,
+  truncated: false,
+  error: null,
+
+  search: async (query, snapshots) => {
+    const repo = useConnectionStore.getState().repo;
+    if (!repo) return;
+
+    try {
+      compileQuery(query);
+    } catch (err) {
+      set({ error: `Invalid pattern: ${(err as Error).message}` });
+      return;
+    }
+
+    searching?.abort();
+    const controller = new AbortController();
+    searching = controller;
+    set({ results: [], batches: [], count: 0, isSearching: true, progress: null, truncated: false, error: null });
+
+    // Each update publishes only the matches found since the previous one;
+    // the full list is put together once at the end
+    const batches: FindMatch[][] = [];
+    let batch: FindMatch[] = [];
+    let count = 0;
+    let lastUpdate = 0;
+    const flush = () => {
+      if (batch.length > 0) batches.push(batch);
+      batch = [];
+    };
+    try {
+      for await (const match of findInSnapshots(repo, snapshots, query, {
+        signal: controller.signal,
+        onSnapshot: (_snapshot, index) => set({ progress: { snapshot: index + 1, snapshots: snapshots.length } }),
+      })) {
+        batch.push(match);
+        if (++count >= MAX_RESULTS) {
+          set({ truncated: true });
+          break;
+        }
+        const now = Date.now();
+        if (now - lastUpdate >= UPDATE_INTERVAL) {
+          lastUpdate = now;
+          flush();
+          set({ batches: [...batches], count });
+        }
+      }
+      flush();
+      set({ results: batches.flat(), batches: [], count, isSearching: false, progress: null });
+    } catch (err) {
+      flush();
+      // Keep what was found so far
+      const found = { results: batches.flat(), batches: [], count, isSearching: false, progress: null };
+      if (isAbortError(err)) {
+        if (searching === controller) set(found);
+        return;
+      }
+      const error = err as Error;
+      set({ ...found, error: error.message });
+    } finally {
+      if (searching === controller) searching = null;
+    }
+  },
+
+  cancel: () => {
+    searching?.abort();
+  },
+
+  clear: () => {
+    searching?.abort();
+    set({ results: [], batches: [], count: 0, isSearching: false, progress: null, truncated: false, error: null });
+  },
+}));
@@ -0,0 +1,137 @@
+/**
+ * History Store - manages the versions of a path across snapshots
+ */
+
+import { create } from 'zustand';
+import { useConnectionStore } from './connectionStore';
+import { useSnapshotStore } from './snapshotStore';
+import { isAbortError } from '../lib/backend';
+import { fileHistory, type FileVersion } from '../lib/history';
+import { decodeText, splitLines, diffLines, sideBySide, type SideBySideRow } from '../lib/lineDiff';
+
+// Largest file compared line by line
+const MAX_DIFF_SIZE = 2 * 1024 * 1024;
+
+// History lookup and version comparison in progress, aborted when superseded
+let loading: AbortController | null = null;
+let comparing: AbortController | null = null;
+
+export interface VersionComparison {
+  older: FileVersion;
+  newer: FileVersion;
+  rows: SideBySideRow[] | null; // While loading
+  error: string | null; // E.g. binary or too large
+}
+
+interface HistoryState {
+  path: string | null;
+  versions: FileVersion[]; // Newest first
+  isLoading: boolean;
+  progress: { done: number; total: number } | null; // Snapshots looked at
+  error: string | null;
+  comparison: VersionComparison | null;
+
+  load: (path: string) => Promise<void>;
+  compare: (a: FileVersion, b: FileVersion) => Promise<void>; // In either order
+  closeComparison: () => void;
+  cancel: () => void;
+  clear: () => void;
+}
+
+export const useHistoryStore = create<HistoryState>((set) => ({
+  path: null,
+  versions: [],
+  isLoading: false,
+  progress: null,
+  error: null,
+  comparison: null,
+
+  load: async (path) => {
+    const repo = useConnectionStore.getState().repo;
+    if (!repo) return;
+
+    loading?.abort();
+    comparing?.abort();
+    const controller = new AbortController();
+    loading = controller;
+    set({ path, versions: [], isLoading: true, progress: null, error: null, comparison: null });
+
+    try {
+      const versions = await fileHistory(repo, useSnapshotStore.getState().snapshots, path, {
+        signal: controller.signal,
+        onProgress: (done, total) => set({ progress: { done, total } }),
+      });
+      set({ versions, isLoading: false, progress: null });
+    } catch (err) {
+      if (isAbortError(err)) {
+        if (loading === controller) set({ isLoading: false, progress: null });
+        return;
+      }
+      const error = err as Error;
+      set({ error: error.message, isLoading: false, progress: null });
+    } finally {
+      if (loading === controller) loading = null;
+    }
+  },
+
+  compare: async (a, b) => {
+    const repo = useConnectionStore.getState().repo;
+    if (!repo) return;
+
+    const lastSeen = (version: FileVersion) => Date.parse(version.snapshots[version.snapshots.length - 1].time);
+    const [older, newer] = lastSeen(a) <= lastSeen(b) ? [a, b] : [b, a];
+    comparing?.abort();
+    const controller = new AbortController();
+    comparing = controller;
+    const fail = (error: string) => set({ comparison: { older, newer, rows: null, error } });
+    set({ comparison: { older, newer, rows: null, error: null } });
+
+    if (older.node.type !== 'file' || newer.node.type !== 'file') {
+      fail('Only files can be compared');
+      return;
+    }
+    if ((older.node.size ?? 0) > MAX_DIFF_SIZE || (newer.node.size ?? 0) > MAX_DIFF_SIZE) {
+      fail('Too large to compare here; download both versions instead');
+      return;
+    }
+
+    try {
+      const [before, after] = await Promise.all([
+        repo.downloadFile(older.node, controller.signal),
+        repo.downloadFile(newer.node, controller.signal),
+      ]);
+      const beforeText = decodeText(before);
+      const afterText = decodeText(after);
+      if (beforeText === null || afterText === null) {
+        fail('Binary files can\'t be compared as text');
+        return;
+      }
+      const ops = diffLines(splitLines(beforeText), splitLines(afterText));
+      if (!ops) {
+        fail('Too many differences to show');
+        return;
+      }
+      set({ comparison: { older, newer, rows: sideBySide(ops), error: null } });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      fail((err as Error).message);
+    } finally {
+      if (comparing === controller) comparing = null;
+    }
+  },
+
+  closeComparison: () => {
+    comparing?.abort();
+    set({ comparison: null });
+  },
+
+  cancel: () => {
+    loading?.abort();
+  },
+
+  clear: () => {
+    loading?.abort();
+    comparing?.abort();
+    set({ path: null, versions: [], isLoading: false, progress: null, error: null, comparison: null });
+  },
+}));
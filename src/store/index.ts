@@ -4,5 +4,9 @@
 
 export { useConnectionStore } from './connectionStore';
 export { useSnapshotStore } from './snapshotStore';
-export { useBrowserStore } from './browserStore';
+export { useBrowserStore, type DownloadProgress } from './browserStore';
+export { useRestoreStore } from './restoreStore';
+export { useDiffStore } from './diffStore';
+export { useFindStore } from './findStore';
+export { useHistoryStore } from './historyStore';
 export { useUIStore } from './uiStore';
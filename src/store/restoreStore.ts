@@ -0,0 +1,160 @@
+/**
+ * Restore Store - manages restoring to a local folder
+ */
+
+import { create } from 'zustand';
+import { useConnectionStore } from './connectionStore';
+import { useBrowserStore, snapshotRootNode } from './browserStore';
+import { useSnapshotStore } from './snapshotStore';
+import { isAbortError } from '../lib/backend';
+import {
+  restoreTree,
+  pickRestoreTarget,
+  getRestoreCheckpoint,
+  setRestoreCheckpoint,
+  type ExistingFilePolicy,
+  type RestoreCheckpoint,
+  type RestoreProgress,
+  type RestoreReport,
+} from '../lib/restore';
+
+// Minimum time between progress updates
+const PROGRESS_INTERVAL = 250;
+
+// Restore in progress, aborted when cancelled or on disconnect
+let restoring: AbortController | null = null;
+
+// Folder of the last restore, reused when resuming in the same session
+let lastTarget: FileSystemDirectoryHandle | null = null;
+
+interface RestoreState {
+  existing: ExistingFilePolicy;
+  isRestoring: boolean;
+  progress: RestoreProgress | null;
+  report: RestoreReport | null;
+  checkpoint: RestoreCheckpoint | null; // Unfinished restore that can be resumed
+  error: string | null;
+
+  setExisting: (existing: ExistingFilePolicy) => void;
+  startRestore: () => Promise<void>; // The selected node, into a folder the user picks
+  resumeRestore: () => Promise<void>;
+  discardCheckpoint: () => void;
+  cancelRestore: () => void;
+  dismissReport: () => void;
+}
+
+export const useRestoreStore = create<RestoreState>((set, get) => ({
+  existing: 'skip',
+  isRestoring: false,
+  progress: null,
+  report: null,
+  checkpoint: getRestoreCheckpoint(),
+  error: null,
+
+  setExisting: (existing) => set({ existing }),
+
+  startRestore: async () => {
+    const repo = useConnectionStore.getState().repo;
+    const { currentSnapshot, currentPath, selectedNode } = useBrowserStore.getState();
+    if (!repo || !currentSnapshot || !selectedNode) return;
+
+    // The picker must be the first thing awaited after the click
+    const target = await pickRestoreTarget();
+    const path = selectedNode.type === 'dir'
+      ? currentPath
+      : `${currentPath.replace(/\/$/, '')}/${selectedNode.name}`;
+
+    await runRestore(target, {
+      snapshot: currentSnapshot.id,
+      path,
+      existing: get().existing,
+    });
+  },
+
+  resumeRestore: async () => {
+    const { checkpoint } = get();
+    if (!checkpoint) return;
+
+    // Ask for the folder again unless it's still at hand
+    const target = lastTarget?.name === checkpoint.target ? lastTarget : await pickRestoreTarget();
+    if (target.name !== checkpoint.target) {
+      throw new Error(`Pick the folder "${checkpoint.target}" to resume the restore`);
+    }
+    await runRestore(target, checkpoint, checkpoint);
+  },
+
+  discardCheckpoint: () => {
+    setRestoreCheckpoint(null);
+    set({ checkpoint: null });
+  },
+
+  cancelRestore: () => {
+    restoring?.abort();
+  },
+
+  dismissReport: () => {
+    set({ report: null, error: null });
+  },
+}));
+
+/**
+ * Restore `source.path` of a snapshot into `target`, tracking progress and
+ * the checkpoint in the store
+ */
+async function runRestore(
+  target: FileSystemDirectoryHandle,
+  source: { snapshot: string; path: string; existing: ExistingFilePolicy },
+  resume?: RestoreCheckpoint
+): Promise<void> {
+  const set = useRestoreStore.setState;
+  const repo = useConnectionStore.getState().repo;
+  if (!repo) return;
+
+  restoring?.abort();
+  const controller = new AbortController();
+  restoring = controller;
+  lastTarget = target;
+  set({ isRestoring: true, progress: null, report: null, error: null });
+
+  let lastUpdate = 0;
+  try {
+    // Resolve the node from the snapshot, so resuming works after navigating away
+    const snapshot = useSnapshotStore.getState().snapshots.find((s) => s.id === source.snapshot);
+    if (!snapshot) {
+      throw new Error(`Snapshot ${source.snapshot.substring(0, 8)} not found`);
+    }
+    const { node } = await repo.browsePath(snapshot, source.path, controller.signal);
+    const root = node ?? snapshotRootNode(snapshot);
+
+    const report = await restoreTree(repo, { snapshot: snapshot.id, path: source.path, node: root }, target, {
+      existing: source.existing,
+      resume,
+      signal: controller.signal,
+      onProgress: (progress) => {
+        const now = Date.now();
+        if (now - lastUpdate >= PROGRESS_INTERVAL || progress.entries === progress.totalEntries) {
+          lastUpdate = now;
+          set({ progress });
+        }
+      },
+      onCheckpoint: (checkpoint) => {
+        setRestoreCheckpoint(checkpoint);
+        set({ checkpoint });
+      },
+    });
+
+    setRestoreCheckpoint(null);
+    set({ isRestoring: false, progress: null, report, checkpoint: null });
+  } catch (err) {
+    if (isAbortError(err)) {
+      // Cancelled: the checkpoint stays so the restore can be resumed
+      if (restoring === controller) set({ isRestoring: false, progress: null });
+      return;
+    }
+    const error = err as Error;
+    set({ isRestoring: false, progress: null, error: error.message });
+    throw error; // Re-throw for UI to handle
+  } finally {
+    if (restoring === controller) restoring = null;
+  }
+}
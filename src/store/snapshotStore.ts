@@ -5,6 +5,10 @@
 import { create } from 'zustand';
 import type { SnapshotWithId } from '../lib/types';
 import { useConnectionStore } from './connectionStore';
+import { isAbortError } from '../lib/backend';
+
+// Snapshot listing in progress, aborted when restarted or cleared
+let loading: AbortController | null = null;
 
 interface SnapshotState {
   snapshots: SnapshotWithId[];
@@ -28,17 +32,23 @@ export const useSnapshotStore = create<SnapshotState>((set) => ({
     }
 
     set({ isLoading: true, error: null });
+    loading?.abort();
+    const controller = new AbortController();
+    loading = controller;
 
     try {
-      const snapshots = await repo.listSnapshots();
+      const snapshots = await repo.listSnapshots(controller.signal);
+      if (controller.signal.aborted) return;
       set({ snapshots, isLoading: false });
     } catch (err) {
+      if (isAbortError(err)) return;
       const error = err as Error;
       set({ error: error.message, isLoading: false });
     }
   },
 
   clear: () => {
-    set({ snapshots: [], error: null });
+    loading?.abort();
+    set({ snapshots: [], isLoading: false, error: null });
   },
 }));
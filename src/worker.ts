@@ -0,0 +1,49 @@
+/**
+ * Worker entry point for the decode pool (see lib/workerPool.ts) and for key
+ * derivation (see lib/kdf.ts)
+ */
+
+import { type DecodeRequest, runDecode } from './lib/decode';
+import { deriveKey } from './lib/crypto';
+import type { KdfRequest } from './lib/kdf';
+import type { WorkerMessage } from './lib/workerPool';
+
+type Request =
+  | { id: number; request: DecodeRequest }
+  | { id: number; kdf: KdfRequest };
+
+function reply(message: WorkerMessage, transfer: Transferable[] = []): void {
+  self.postMessage(message, { transfer });
+}
+
+async function deriveWithProgress(id: number, { password, salt, N, r, p, maxMemory }: KdfRequest): Promise<void> {
+  // Report whole percents only; scrypt calls back far more often than that
+  let reported = -1;
+  const key = await deriveKey(password, salt, N, r, p, {
+    maxMemory,
+    onProgress: (progress) => {
+      const percent = Math.floor(progress * 100);
+      if (percent !== reported) {
+        reported = percent;
+        reply({ id, progress });
+      }
+    },
+  });
+  reply({ id, key });
+}
+
+self.onmessage = async (event: MessageEvent<Request>) => {
+  const message = event.data;
+  try {
+    if ('kdf' in message) {
+      await deriveWithProgress(message.id, message.kdf);
+    } else {
+      const result = await runDecode(message.request);
+      reply({ id: message.id, result }, [result.data.buffer]);
+    }
+  } catch (err) {
+    reply({ id: message.id, error: (err as Error).message });
+  }
+};
+
+reply({ ready: true });